@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { successResponse, errorResponse } from '@/lib/utils/api-response';
+import { authorizeConversionAccess, maybeClearGuestCookie } from '@/lib/utils/authorize-conversion';
+import { ConversionRepository } from '@/lib/services/conversion.repository';
+import { ConversionJobRepository } from '@/lib/services/conversion-job.repository';
+import { ConversionEventRepository } from '@/lib/services/conversion-event.repository';
+import { conversionJobRunner } from '@/lib/services/conversion-job-runner';
+import { toConversionDetail } from '@/lib/types/image';
+
+/**
+ * POST /api/conversions/[id]/cancel
+ *
+ * Stops processing a pending or processing conversion. The conversion and
+ * its job become `cancelled`, a `conversion.cancelled` event ends its
+ * progress stream, and a run in progress is aborted (at once on this
+ * instance, within a few seconds on others). No output is stored; the
+ * previous output of a reprocessed conversion is kept. Cancelled
+ * conversions can be reprocessed.
+ *
+ * Returns `200` with the updated conversion (same shape as
+ * GET /api/conversions/[id]); `409 CONVERSION_NOT_IN_PROGRESS` when the
+ * conversion already finished.
+ *
+ * Authentication required: User must be authenticated (session or guest cookie)
+ * Authorization: User must own the conversion (userId matches)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authResult = await authorizeConversionAccess(request, id);
+    if (!authResult.authorized) {
+      return authResult.response;
+    }
+
+    // Conditional on the status, like storing a run's output, so whichever
+    // of the two lands first wins
+    const updated = await prisma.$transaction(async (tx) => {
+      const conversions = new ConversionRepository(tx);
+      if (!(await conversions.markCancelled(id))) {
+        return null;
+      }
+      await new ConversionJobRepository(tx).cancel(id);
+      await new ConversionEventRepository(tx).append(id, { type: 'conversion.cancelled' });
+      return await conversions.findById(id);
+    });
+
+    if (!updated) {
+      return errorResponse(
+        'Conversion is not being processed',
+        'CONVERSION_NOT_IN_PROGRESS',
+        409
+      );
+    }
+
+    conversionJobRunner.cancel(id);
+
+    const response = successResponse(toConversionDetail(updated));
+
+    return maybeClearGuestCookie(response, authResult.shouldClearGuestCookie);
+  } catch (error) {
+    console.error('Error cancelling conversion:', error);
+    return errorResponse('Failed to cancel conversion', 'CANCEL_ERROR', 500);
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { successResponse, errorResponse } from '@/lib/utils/api-response';
+import { authorizeConversionAccess, maybeClearGuestCookie } from '@/lib/utils/authorize-conversion';
+import { maskRefinementService } from '@/lib/services/mask-refinement.service';
+import { PipelineStepError } from '@/lib/pipeline/pipeline-step-error';
+import { BlobStorageError } from '@/lib/services/storage/blob-storage-error';
+import { toConversionDetail } from '@/lib/types/image';
+
+/** Edge refinement options accepted as query parameters by GET */
+const OPTION_PARAMS = ['offset', 'feather', 'threshold'] as const;
+
+/**
+ * GET /api/conversions/[id]/edge-refinement?offset=&feather=&threshold=
+ *
+ * Renders a preview of the conversion with the given edge refinement
+ * settings, without storing anything. The preview is downscaled and
+ * encoded as WebP so slider changes get quick feedback.
+ *
+ * Query parameters (see the edge-refinement step):
+ * - offset: pixels to grow (positive) or shrink (negative) the subject
+ * - feather: edge blur radius in pixels
+ * - threshold: optional alpha cut-off (1-254) for hard edges
+ *
+ * Authentication required: User must be authenticated (session or guest cookie)
+ * Authorization: User must own the conversion (userId matches)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authResult = await authorizeConversionAccess(request, id);
+    if (!authResult.authorized) {
+      return authResult.response;
+    }
+
+    const { searchParams } = request.nextUrl;
+    const options: Record<string, unknown> = {};
+    for (const param of OPTION_PARAMS) {
+      const value = searchParams.get(param);
+      if (value !== null && value !== '') {
+        options[param] = Number(value);
+      }
+    }
+
+    const preview = await maskRefinementService.previewEdgeRefinement(
+      authResult.conversion,
+      options
+    );
+    const response = new NextResponse(new Uint8Array(preview.image), {
+      headers: {
+        'Content-Type': preview.contentType,
+        'Content-Length': preview.image.length.toString(),
+        'Cache-Control': 'private, max-age=60',
+      },
+    });
+
+    return maybeClearGuestCookie(response, authResult.shouldClearGuestCookie);
+  } catch (error) {
+    return handleError(error, 'Error previewing edge refinement:');
+  }
+}
+
+/**
+ * PUT /api/conversions/[id]/edge-refinement
+ *
+ * Commits edge refinement settings: the conversion is re-rendered from its
+ * stored mask (no background removal provider is called), the settings are
+ * saved in its pipeline spec, and the new processed image replaces the old
+ * one. Settings replace any previously applied edge refinement.
+ *
+ * Request body (JSON): { offset, feather, threshold? } as for GET
+ *
+ * Returns the updated conversion (same shape as GET /api/conversions/[id]).
+ *
+ * Authentication required: User must be authenticated (session or guest cookie)
+ * Authorization: User must own the conversion (userId matches)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authResult = await authorizeConversionAccess(request, id);
+    if (!authResult.authorized) {
+      return authResult.response;
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse('Invalid JSON body', 'INVALID_BODY', 400);
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return errorResponse('Body must be an object of edge refinement options', 'INVALID_BODY', 400);
+    }
+
+    const conversion = await maskRefinementService.applyEdgeRefinement(
+      authResult.conversion,
+      body as Record<string, unknown>
+    );
+    const response = successResponse(toConversionDetail(conversion));
+
+    return maybeClearGuestCookie(response, authResult.shouldClearGuestCookie);
+  } catch (error) {
+    return handleError(error, 'Error applying edge refinement:');
+  }
+}
+
+function handleError(error: unknown, logMessage: string) {
+  if (error instanceof PipelineStepError) {
+    return errorResponse(error.message, error.code, error.statusCode);
+  }
+
+  if (error instanceof BlobStorageError) {
+    return errorResponse('Failed to load or store image', 'STORAGE_ERROR', 500);
+  }
+
+  console.error(logMessage, error);
+  return errorResponse('Failed to refine edges', 'EDGE_REFINEMENT_ERROR', 500);
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { errorResponse } from '@/lib/utils/api-response';
+import { authorizeConversionAccess, maybeClearGuestCookie } from '@/lib/utils/authorize-conversion';
+import { conversionEventRepository } from '@/lib/services/conversion-event.repository';
+import { conversionJobRunner } from '@/lib/services/conversion-job-runner';
+import { conversionRepository } from '@/lib/services/conversion.repository';
+import type { ConversionProgressEvent } from '@/lib/types/pipeline';
+
+/** How often the event table is polled for new events */
+const POLL_INTERVAL_MS = 500;
+
+/**
+ * Longest time a single stream stays open. The client's EventSource
+ * reconnects with Last-Event-ID, so long conversions span several streams
+ * without holding a serverless function open indefinitely.
+ */
+const MAX_STREAM_MS = 25_000;
+
+/** Events after which a conversion produces no further progress */
+const TERMINAL_EVENT_TYPES = new Set([
+  'conversion.succeeded',
+  'conversion.failed',
+  'conversion.cancelled',
+]);
+
+/**
+ * Format one Server-Sent Event frame
+ */
+function formatEvent(id: number | null, event: ConversionProgressEvent): string {
+  const idLine = id === null ? '' : `id: ${id}\n`;
+  return `${idLine}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * GET /api/conversions/[id]/events
+ *
+ * Streams a conversion's progress as Server-Sent Events: lifecycle events
+ * (`conversion.processing`, `conversion.succeeded`, `conversion.failed`,
+ * `conversion.cancelled`) and
+ * the pipeline's step events (`pipeline.started`, `step.started`,
+ * `step.retry`, `step.completed`, `step.failed`, `pipeline.completed`).
+ * Each event's `data` is the JSON event object.
+ *
+ * Events are replayed from the start of the conversion, or from after the
+ * `Last-Event-ID` header when the client reconnects. The stream closes after
+ * a terminal event (succeeded/failed/cancelled) or after MAX_STREAM_MS, in which case
+ * the client reconnects and resumes.
+ *
+ * Conversions that finished before progress was recorded get a single
+ * synthetic terminal event so clients always learn the outcome.
+ *
+ * Authentication required: User must be authenticated (session or guest cookie)
+ * Authorization: User must own the conversion (userId matches)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authResult = await authorizeConversionAccess(request, id);
+    if (!authResult.authorized) {
+      return authResult.response;
+    }
+
+    const { status } = authResult.conversion;
+    if (status === 'pending' || status === 'processing') {
+      after(() =>
+        conversionJobRunner.runPending().catch((error) => {
+          console.error('Error running conversion jobs:', error);
+        })
+      );
+    }
+
+    const lastEventId = Number.parseInt(request.headers.get('last-event-id') ?? '', 10);
+    let cursor = Number.isFinite(lastEventId) && lastEventId > 0 ? lastEventId : 0;
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const deadline = Date.now() + MAX_STREAM_MS;
+        const send = (eventId: number | null, event: ConversionProgressEvent) =>
+          controller.enqueue(encoder.encode(formatEvent(eventId, event)));
+
+        try {
+          // Ask the client to reconnect quickly once a stream times out
+          controller.enqueue(encoder.encode(`retry: ${POLL_INTERVAL_MS * 2}\n\n`));
+
+          while (!request.signal.aborted && Date.now() < deadline) {
+            const events = await conversionEventRepository.listAfter(id, cursor);
+
+            for (const event of events) {
+              cursor = event.id;
+              send(event.id, event.data as unknown as ConversionProgressEvent);
+
+              if (TERMINAL_EVENT_TYPES.has(event.type)) {
+                controller.close();
+                return;
+              }
+            }
+
+            if (events.length === 0 && cursor === 0) {
+              const conversion = await conversionRepository.findById(id);
+
+              if (!conversion) {
+                // Deleted while streaming
+                controller.close();
+                return;
+              }
+
+              if (conversion.status === 'succeeded') {
+                send(null, { type: 'conversion.succeeded' });
+                controller.close();
+                return;
+              }
+
+              if (conversion.status === 'failed') {
+                send(null, {
+                  type: 'conversion.failed',
+                  code: conversion.errorCode ?? 'INTERNAL_ERROR',
+                  message: conversion.errorMessage ?? 'Processing failed',
+                });
+                controller.close();
+                return;
+              }
+
+              if (conversion.status === 'cancelled') {
+                send(null, { type: 'conversion.cancelled' });
+                controller.close();
+                return;
+              }
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+          }
+
+          controller.close();
+        } catch (error) {
+          console.error('Error streaming conversion events:', error);
+          controller.error(error);
+        }
+      },
+    });
+
+    const response = new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+
+    return maybeClearGuestCookie(response, authResult.shouldClearGuestCookie);
+  } catch (error) {
+    console.error('Error opening conversion event stream:', error);
+    return errorResponse(
+      'Failed to open conversion event stream',
+      'STREAM_ERROR',
+      500
+    );
+  }
+}
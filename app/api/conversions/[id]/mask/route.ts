@@ -0,0 +1,115 @@
+import { NextRequest } from 'next/server';
+import { serveImageProxy } from '@/lib/utils/image-proxy';
+import { getBaseName } from '@/lib/utils/format';
+import { successResponse, errorResponse } from '@/lib/utils/api-response';
+import { authorizeConversionAccess, maybeClearGuestCookie } from '@/lib/utils/authorize-conversion';
+import { validateMaskDeltaFile } from '@/lib/utils/validation';
+import { maskRefinementService } from '@/lib/services/mask-refinement.service';
+import { PipelineStepError } from '@/lib/pipeline/pipeline-step-error';
+import { BlobStorageError } from '@/lib/services/storage/blob-storage-error';
+import { toConversionDetail } from '@/lib/types/image';
+
+/**
+ * GET /api/conversions/[id]/mask
+ *
+ * Alpha mask proxy route - serves the grayscale cutout mask (white = subject,
+ * black = removed background) through authentication, as a PNG.
+ *
+ * The mask is captured by the background removal step, before later steps
+ * crop, frame or fill the image, so it matches the original image's
+ * dimensions. Conversions without a background removal step have no mask.
+ *
+ * Flow:
+ * 1. Authenticate user (NextAuth session or guest cookie)
+ * 2. Trigger merge if both session + guest cookie exist
+ * 3. Query conversion record from DB
+ * 4. Verify ownership (userId matches)
+ * 5. Fetch mask blob content from Vercel Blob server-side
+ * 6. Stream image bytes to client with appropriate headers
+ *
+ * Cache headers ensure browsers can cache locally but CDNs won't cache
+ * authenticated content (Cache-Control: private).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  return serveImageProxy(request, id, {
+    getBlobUrl: (conversion) => conversion.maskBlobUrl,
+    getContentType: () => 'image/png',
+    getContentLength: (_, buffer) => buffer.length,
+    getFileName: (conversion) => `${getBaseName(conversion.name)}-mask.png`,
+    getMissingError: (conversion) =>
+      conversion.status === 'succeeded'
+        ? {
+            message: 'This conversion has no alpha mask (no background was removed)',
+            code: 'MASK_NOT_AVAILABLE',
+          }
+        : { message: 'Mask is not available yet', code: 'IMAGE_NOT_READY' },
+    errorContext: 'Error serving mask image file',
+  });
+}
+
+/**
+ * PATCH /api/conversions/[id]/mask
+ *
+ * Refines the cutout with a mask edit from the mask editor. The edit is
+ * applied to the stored mask, the original image is recomposited with the
+ * edited mask, the steps after background removal are replayed, and the
+ * new processed image and mask replace the old ones. No background removal
+ * provider is called.
+ *
+ * Form fields:
+ * - delta: RGBA PNG with the mask's dimensions; alpha is the edit strength
+ *   per pixel and red the target mask value (255 restore, 0 erase)
+ *
+ * Returns the updated conversion (same shape as GET /api/conversions/[id]).
+ *
+ * Authentication required: User must be authenticated (session or guest cookie)
+ * Authorization: User must own the conversion (userId matches)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authResult = await authorizeConversionAccess(request, id);
+    if (!authResult.authorized) {
+      return authResult.response;
+    }
+
+    const formData = await request.formData();
+    const delta = formData.get('delta');
+    if (!(delta instanceof File)) {
+      return errorResponse('No mask edit provided in request', 'MASK_DELTA_REQUIRED', 400);
+    }
+
+    const validation = validateMaskDeltaFile(delta);
+    if (!validation.valid) {
+      return errorResponse(validation.error, 'INVALID_MASK_DELTA', 400);
+    }
+
+    const conversion = await maskRefinementService.refine(
+      authResult.conversion,
+      Buffer.from(await delta.arrayBuffer())
+    );
+    const response = successResponse(toConversionDetail(conversion));
+
+    return maybeClearGuestCookie(response, authResult.shouldClearGuestCookie);
+  } catch (error) {
+    if (error instanceof PipelineStepError) {
+      return errorResponse(error.message, error.code, error.statusCode);
+    }
+
+    if (error instanceof BlobStorageError) {
+      return errorResponse('Failed to store image', 'STORAGE_ERROR', 500);
+    }
+
+    console.error('Error refining conversion mask:', error);
+    return errorResponse('Failed to refine mask', 'MASK_REFINEMENT_ERROR', 500);
+  }
+}
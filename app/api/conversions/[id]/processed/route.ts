@@ -1,5 +1,16 @@
 import { NextRequest } from 'next/server';
 import { serveImageProxy } from '@/lib/utils/image-proxy';
+import { errorResponse } from '@/lib/utils/api-response';
+import { buildPresetPipeline } from '@/lib/pipeline/pipeline-builder';
+import {
+  OUTPUT_PRESETS,
+  isOutputPresetId,
+} from '@/lib/constants/output-presets';
+import {
+  OUTPUT_FORMATS,
+  getOutputExtension,
+} from '@/lib/constants/image-formats';
+import { getBaseName } from '@/lib/utils/format';
 
 /**
  * GET /api/conversions/[id]/processed
@@ -18,6 +29,10 @@ import { serveImageProxy } from '@/lib/utils/image-proxy';
  * 5. Fetch processed blob content from Vercel Blob server-side
  * 6. Stream image bytes to client with appropriate headers
  *
+ * Query parameters:
+ * - preset: output preset id (e.g. `amazon`); frames and re-encodes the
+ *   processed image for that marketplace before serving it
+ *
  * Cache headers ensure browsers can cache locally but CDNs won't cache
  * authenticated content (Cache-Control: private).
  */
@@ -26,11 +41,38 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const preset = request.nextUrl.searchParams.get('preset');
+
+  if (preset !== null && !isOutputPresetId(preset)) {
+    return errorResponse(
+      `Unknown output preset. Available presets: ${Object.keys(OUTPUT_PRESETS).join(', ')}`,
+      'INVALID_PRESET',
+      400
+    );
+  }
 
   return serveImageProxy(request, id, {
     getBlobUrl: (conversion) => conversion.processedBlobUrl,
     getContentType: (conversion) => conversion.processedContentType,
-    getContentLength: (conversion) => conversion.size,
+    getContentLength: (conversion, buffer) => conversion.size ?? buffer.length,
+    // Name the file after the processed format, not the uploaded one
+    getFileName: (conversion) => {
+      const extension = getOutputExtension(conversion.processedContentType);
+      return extension
+        ? `${getBaseName(conversion.name)}.${extension}`
+        : conversion.name;
+    },
     errorContext: 'Error serving processed image file',
+    transform: preset
+      ? async (image) => {
+          const { image: framed } = await buildPresetPipeline(preset).execute(image);
+          const format = OUTPUT_FORMATS[OUTPUT_PRESETS[preset].format];
+          return {
+            image: framed,
+            contentType: format.contentType,
+            extension: format.extension,
+          };
+        }
+      : undefined,
   });
 }
@@ -0,0 +1,127 @@
+import { NextRequest, after } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { successResponse, errorResponse, withRetryAfter } from '@/lib/utils/api-response';
+import { authorizeConversionAccess, maybeClearGuestCookie } from '@/lib/utils/authorize-conversion';
+import { buildPipeline } from '@/lib/pipeline/pipeline-builder';
+import { DEFAULT_PIPELINE_SPEC, parsePipelineSpec } from '@/lib/pipeline/pipeline-spec';
+import { PipelineStepError } from '@/lib/pipeline/pipeline-step-error';
+import { ConversionRepository } from '@/lib/services/conversion.repository';
+import { ConversionJobRepository } from '@/lib/services/conversion-job.repository';
+import { ConversionEventRepository } from '@/lib/services/conversion-event.repository';
+import { conversionJobRunner } from '@/lib/services/conversion-job-runner';
+import { createStepServices } from '@/lib/services/step-services';
+import { toConversionDetail } from '@/lib/types/image';
+
+/**
+ * POST /api/conversions/[id]/reprocess
+ *
+ * Runs a finished (succeeded or failed) conversion again from its stored
+ * original, without re-uploading. Useful after a transient background
+ * removal failure or to try different options.
+ *
+ * Request body (JSON, optional):
+ * - pipeline: PipelineSpec for the new run (defaults to the conversion's
+ *   current spec)
+ *
+ * The conversion goes back to `pending` and is processed by the job queue
+ * like a new upload: progress streams from GET /api/conversions/[id]/events
+ * (previous events are cleared), and on success the new processed image and
+ * mask replace the old ones. Until then the previous output is still served.
+ *
+ * Returns `202` with the updated conversion (same shape as
+ * GET /api/conversions/[id]); `409 CONVERSION_IN_PROGRESS` while the
+ * conversion is pending or processing; `503 BG_REMOVAL_BUSY` with a
+ * Retry-After header while the job queue is full.
+ *
+ * Authentication required: User must be authenticated (session or guest cookie)
+ * Authorization: User must own the conversion (userId matches)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authResult = await authorizeConversionAccess(request, id);
+    if (!authResult.authorized) {
+      return authResult.response;
+    }
+
+    const { conversion } = authResult;
+    if (conversion.status === 'pending' || conversion.status === 'processing') {
+      return errorResponse(
+        'Conversion is still being processed',
+        'CONVERSION_IN_PROGRESS',
+        409
+      );
+    }
+
+    let body: { pipeline?: unknown } = {};
+    const text = await request.text();
+    if (text) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        return errorResponse('Invalid JSON body', 'INVALID_BODY', 400);
+      }
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        return errorResponse('Invalid JSON body', 'INVALID_BODY', 400);
+      }
+      body = parsed;
+    }
+
+    // Validate the whole pipeline before queueing, as uploads do
+    const pipelineSpec =
+      body.pipeline !== undefined
+        ? parsePipelineSpec(body.pipeline)
+        : conversion.pipelineSpec
+          ? parsePipelineSpec(conversion.pipelineSpec)
+          : DEFAULT_PIPELINE_SPEC;
+    buildPipeline(pipelineSpec, createStepServices(conversion.userId));
+    await conversionJobRunner.assertQueueHasRoom();
+
+    // Conditional on the status: another reprocess may have started meanwhile
+    const updated = await prisma.$transaction(async (tx) => {
+      const pending = await new ConversionRepository(tx).markPendingReprocess(
+        id,
+        pipelineSpec
+      );
+      if (!pending) {
+        return null;
+      }
+      await new ConversionEventRepository(tx).deleteByConversionId(id);
+      await new ConversionJobRepository(tx).enqueue(id);
+      return pending;
+    });
+
+    if (!updated) {
+      return errorResponse(
+        'Conversion is still being processed',
+        'CONVERSION_IN_PROGRESS',
+        409
+      );
+    }
+
+    after(() =>
+      conversionJobRunner.runPending().catch((error) => {
+        console.error('Error running conversion jobs:', error);
+      })
+    );
+
+    const response = successResponse(toConversionDetail(updated), 202);
+
+    return maybeClearGuestCookie(response, authResult.shouldClearGuestCookie);
+  } catch (error) {
+    if (error instanceof PipelineStepError) {
+      return withRetryAfter(
+        errorResponse(error.message, error.code, error.statusCode),
+        error.retryAfterMs
+      );
+    }
+
+    console.error('Error reprocessing conversion:', error);
+    return errorResponse('Failed to reprocess conversion', 'REPROCESS_ERROR', 500);
+  }
+}
@@ -1,15 +1,23 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, after } from 'next/server';
 import { successResponse, errorResponse } from '@/lib/utils/api-response';
 import { conversionRepository } from '@/lib/services/conversion.repository';
+import { conversionVersionRepository } from '@/lib/services/conversion-version.repository';
 import { blobStorageService } from '@/lib/services/storage/vercel-blob.service';
 import { authorizeConversionAccess, maybeClearGuestCookie } from '@/lib/utils/authorize-conversion';
-import { toProcessedImage } from '@/lib/types/image';
+import { conversionJobRunner } from '@/lib/services/conversion-job-runner';
+import { toProcessedImage, toConversionDetail } from '@/lib/types/image';
 
 /**
  * GET /api/conversions/[id]
  *
  * Retrieves metadata for a conversion by its ID.
- * Returns the proxy URLs, display name, size, and creation timestamp.
+ * Returns the proxy URLs, display name, size, creation timestamp, processing
+ * status (with error code/message when failed), and the pipeline execution
+ * report (per-step timings, retries, image info).
+ *
+ * Clients poll this endpoint while a conversion is `pending` or `processing`.
+ * Each such poll also kicks the job runner, so jobs queued before a restart
+ * (or whose runner died) are picked up again.
  *
  * Authentication required: User must be authenticated (session or guest cookie)
  * Authorization: User must own the conversion (userId matches)
@@ -28,9 +36,18 @@ export async function GET(
       return authResult.response;
     }
 
-    // Return conversion metadata with proxy URLs
-    const processedImage = toProcessedImage(authResult.conversion);
-    const response = successResponse(processedImage);
+    const { status } = authResult.conversion;
+    if (status === 'pending' || status === 'processing') {
+      after(() =>
+        conversionJobRunner.runPending().catch((error) => {
+          console.error('Error running conversion jobs:', error);
+        })
+      );
+    }
+
+    // Return conversion metadata with proxy URLs and execution report
+    const conversionDetail = toConversionDetail(authResult.conversion);
+    const response = successResponse(conversionDetail);
 
     // Clear guest cookie if merge happened
     return maybeClearGuestCookie(response, authResult.shouldClearGuestCookie);
@@ -95,8 +112,9 @@ export async function PATCH(
 /**
  * DELETE /api/conversions/[id]
  *
- * Deletes both original and processed images and their metadata from blob storage and database.
+ * Deletes the original image, the processed images and alpha masks of all versions, and their metadata from blob storage and database.
  * Verifies the conversion exists and the user owns it before attempting deletion.
+ * Processing still in progress is aborted.
  *
  * Authentication required: User must be authenticated (session or guest cookie)
  * Authorization: User must own the conversion (userId matches)
@@ -115,8 +133,23 @@ export async function DELETE(
       return authResult.response;
     }
 
-    // Delete both blobs from storage
-    await blobStorageService.delete(authResult.conversion.processedBlobUrl);
+    // Stop a run in progress on this instance; runs elsewhere notice the
+    // deleted job and stop on their own
+    conversionJobRunner.cancel(id);
+
+    // Delete all blobs from storage: every version's processed image and
+    // mask (pending conversions have none yet), then the original
+    const versions = await conversionVersionRepository.findByConversionId(id);
+    const outputBlobUrls = new Set(
+      [
+        authResult.conversion.processedBlobUrl,
+        authResult.conversion.maskBlobUrl,
+        ...versions.flatMap((version) => [version.processedBlobUrl, version.maskBlobUrl]),
+      ].filter((url): url is string => url !== null)
+    );
+    for (const url of outputBlobUrls) {
+      await blobStorageService.delete(url);
+    }
     await blobStorageService.delete(authResult.conversion.originalBlobUrl);
 
     // Delete conversion record from database
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { serveImageProxy } from '@/lib/utils/image-proxy';
+import { conversionVersionRepository } from '@/lib/services/conversion-version.repository';
+import { getOutputExtension } from '@/lib/constants/image-formats';
+import { getBaseName } from '@/lib/utils/format';
+
+/**
+ * GET /api/conversions/[id]/versions/[versionId]/processed
+ *
+ * Processed image proxy for one version of a conversion, for comparing
+ * versions before restoring one. Same authentication, ownership checks and
+ * caching as GET /api/conversions/[id]/processed. Versions never change, so
+ * their URLs need no cache busting.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  const { id, versionId } = await params;
+
+  // Only used once serveImageProxy has authorized access to the conversion
+  const version = await conversionVersionRepository.findById(versionId);
+  const ownVersion = version?.conversionId === id ? version : null;
+
+  return serveImageProxy(request, id, {
+    getBlobUrl: () => ownVersion?.processedBlobUrl ?? null,
+    getContentType: () => ownVersion?.contentType ?? 'application/octet-stream',
+    getContentLength: (_, buffer) => ownVersion?.size ?? buffer.length,
+    getFileName: (conversion) => {
+      const extension = ownVersion ? getOutputExtension(ownVersion.contentType) : null;
+      return ownVersion && extension
+        ? `${getBaseName(conversion.name)}-v${ownVersion.number}.${extension}`
+        : conversion.name;
+    },
+    getMissingError: () => ({ message: 'Version not found', code: 'VERSION_NOT_FOUND' }),
+    errorContext: 'Error serving version image file',
+  });
+}
@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { successResponse, errorResponse } from '@/lib/utils/api-response';
+import { authorizeConversionAccess, maybeClearGuestCookie } from '@/lib/utils/authorize-conversion';
+import { conversionVersionRepository } from '@/lib/services/conversion-version.repository';
+import { conversionOutputService } from '@/lib/services/conversion-output.service';
+import { toConversionDetail } from '@/lib/types/image';
+
+/**
+ * POST /api/conversions/[id]/versions/[versionId]/restore
+ *
+ * Makes the version the conversion's current output: the processed image,
+ * mask, report and pipeline spec switch back to the version's, so later
+ * edits build on it. Other versions are kept. Not allowed while the
+ * conversion is being processed (`409 CONVERSION_IN_PROGRESS`).
+ *
+ * Returns the updated conversion (same shape as GET /api/conversions/[id]).
+ *
+ * Authentication required: User must be authenticated (session or guest cookie)
+ * Authorization: User must own the conversion (userId matches)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const { id, versionId } = await params;
+
+    const authResult = await authorizeConversionAccess(request, id);
+    if (!authResult.authorized) {
+      return authResult.response;
+    }
+
+    const { conversion } = authResult;
+    if (conversion.status === 'pending' || conversion.status === 'processing') {
+      return errorResponse(
+        'Conversion is still being processed',
+        'CONVERSION_IN_PROGRESS',
+        409
+      );
+    }
+
+    const version = await conversionVersionRepository.findById(versionId);
+    if (!version || version.conversionId !== id) {
+      return errorResponse('Version not found', 'VERSION_NOT_FOUND', 404);
+    }
+
+    // Conditional on the status, in case a reprocess started meanwhile
+    const updated = await conversionOutputService.restoreVersion(conversion, version);
+    if (!updated) {
+      return errorResponse(
+        'Conversion is still being processed',
+        'CONVERSION_IN_PROGRESS',
+        409
+      );
+    }
+    const response = successResponse(toConversionDetail(updated));
+
+    return maybeClearGuestCookie(response, authResult.shouldClearGuestCookie);
+  } catch (error) {
+    console.error('Error restoring conversion version:', error);
+    return errorResponse('Failed to restore version', 'RESTORE_ERROR', 500);
+  }
+}
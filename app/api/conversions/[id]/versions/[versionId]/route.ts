@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { successResponse, errorResponse } from '@/lib/utils/api-response';
+import { authorizeConversionAccess, maybeClearGuestCookie } from '@/lib/utils/authorize-conversion';
+import { conversionVersionRepository } from '@/lib/services/conversion-version.repository';
+import { conversionOutputService } from '@/lib/services/conversion-output.service';
+
+/**
+ * DELETE /api/conversions/[id]/versions/[versionId]
+ *
+ * Deletes an old version of the conversion and its blobs. The current
+ * version cannot be deleted (`409 VERSION_IS_CURRENT`); restore another
+ * version first.
+ *
+ * Authentication required: User must be authenticated (session or guest cookie)
+ * Authorization: User must own the conversion (userId matches)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const { id, versionId } = await params;
+
+    const authResult = await authorizeConversionAccess(request, id);
+    if (!authResult.authorized) {
+      return authResult.response;
+    }
+
+    const version = await conversionVersionRepository.findById(versionId);
+    if (!version || version.conversionId !== id) {
+      return errorResponse('Version not found', 'VERSION_NOT_FOUND', 404);
+    }
+
+    if (version.id === authResult.conversion.currentVersionId) {
+      return errorResponse(
+        'The current version cannot be deleted',
+        'VERSION_IS_CURRENT',
+        409
+      );
+    }
+
+    await conversionOutputService.deleteVersion(version);
+
+    const response = successResponse({
+      message: 'Version deleted successfully',
+      id: versionId,
+    });
+
+    return maybeClearGuestCookie(response, authResult.shouldClearGuestCookie);
+  } catch (error) {
+    console.error('Error deleting conversion version:', error);
+    return errorResponse('Failed to delete version', 'DELETION_ERROR', 500);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { successResponse, errorResponse } from '@/lib/utils/api-response';
+import { authorizeConversionAccess, maybeClearGuestCookie } from '@/lib/utils/authorize-conversion';
+import { conversionVersionRepository } from '@/lib/services/conversion-version.repository';
+import { toConversionVersionSummary } from '@/lib/types/image';
+
+/**
+ * GET /api/conversions/[id]/versions
+ *
+ * Lists the conversion's stored outputs, newest first. A version is added
+ * by every successful run (upload, reprocess) and edit (mask edit, edge
+ * refinement); `isCurrent` marks the one served as the processed image.
+ * Each version's image is served by
+ * GET /api/conversions/[id]/versions/[versionId]/processed.
+ *
+ * Authentication required: User must be authenticated (session or guest cookie)
+ * Authorization: User must own the conversion (userId matches)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const authResult = await authorizeConversionAccess(request, id);
+    if (!authResult.authorized) {
+      return authResult.response;
+    }
+
+    const versions = await conversionVersionRepository.findByConversionId(id);
+    const response = successResponse(
+      versions.map((version) =>
+        toConversionVersionSummary(version, authResult.conversion.currentVersionId)
+      )
+    );
+
+    return maybeClearGuestCookie(response, authResult.shouldClearGuestCookie);
+  } catch (error) {
+    console.error('Error listing conversion versions:', error);
+    return errorResponse('Failed to list versions', 'LIST_ERROR', 500);
+  }
+}
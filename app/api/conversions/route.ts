@@ -1,6 +1,7 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, after } from 'next/server';
 import { resolveUser } from '@/lib/auth/resolve-user';
 import { conversionRepository } from '@/lib/services/conversion.repository';
+import { conversionJobRunner } from '@/lib/services/conversion-job-runner';
 import { toProcessedImage } from '@/lib/types/image';
 import { successResponse, errorResponse } from '@/lib/utils/api-response';
 import { clearGuestCookie } from '@/lib/auth/guest';
@@ -10,6 +11,7 @@ import { clearGuestCookie } from '@/lib/auth/guest';
  *
  * Retrieves all conversions for the authenticated user.
  * Returns an array of ProcessedImage metadata with proxy URLs for original and processed images.
+ * Like GET /api/conversions/[id], kicks the job runner while any conversion is still in progress.
  *
  * Authentication required: User must be authenticated (session or guest cookie)
  */
@@ -29,6 +31,14 @@ export async function GET(request: NextRequest) {
     // Fetch all conversions for this user
     const conversions = await conversionRepository.findByUserId(user.userId);
 
+    if (conversions.some((c) => c.status === 'pending' || c.status === 'processing')) {
+      after(() =>
+        conversionJobRunner.runPending().catch((error) => {
+          console.error('Error running conversion jobs:', error);
+        })
+      );
+    }
+
     // Map to API response format
     const images = conversions.map(toProcessedImage);
 
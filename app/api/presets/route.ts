@@ -0,0 +1,22 @@
+import {
+  OUTPUT_PRESETS,
+  type OutputPresetId,
+} from '@/lib/constants/output-presets';
+import type { OutputPresetSummary } from '@/lib/types/image';
+import { successResponse } from '@/lib/utils/api-response';
+
+/**
+ * GET /api/presets
+ *
+ * Lists the marketplace output presets (canvas size, subject fill ratio,
+ * background color, file size limit, format) for the upload and download UI.
+ *
+ * No authentication required: presets are static configuration.
+ */
+export async function GET() {
+  const presets: OutputPresetSummary[] = Object.entries(OUTPUT_PRESETS).map(
+    ([id, preset]) => ({ id: id as OutputPresetId, ...preset })
+  );
+
+  return successResponse(presets);
+}
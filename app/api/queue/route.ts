@@ -0,0 +1,25 @@
+import { conversionJobRunner } from '@/lib/services/conversion-job-runner';
+import type { QueueStatus } from '@/lib/types/image';
+import { successResponse, errorResponse } from '@/lib/utils/api-response';
+
+/**
+ * GET /api/queue
+ *
+ * Reports processing load for monitoring: the depth of the conversion job
+ * queue across all instances and its limits (see ConversionJobRunner).
+ *
+ * No authentication required: only counts are returned.
+ */
+export async function GET() {
+  try {
+    const status: QueueStatus = {
+      jobs: await conversionJobRunner.getQueueDepth(),
+      limits: conversionJobRunner.limits,
+    };
+
+    return successResponse(status);
+  } catch (error) {
+    console.error('Error reading queue status:', error);
+    return errorResponse('Failed to read queue status', 'QUEUE_STATUS_ERROR', 500);
+  }
+}
@@ -1,13 +1,22 @@
-import { NextRequest } from "next/server";
+import { NextRequest, after } from "next/server";
+import { prisma } from "@/lib/prisma";
 import { validateImageFile } from "@/lib/utils/validation";
-import { successResponse, errorResponse } from "@/lib/utils/api-response";
-import { ImageProcessingPipeline } from "@/lib/pipeline/image-processing-pipeline";
-import { FormatNormalizationStep } from "@/lib/pipeline/steps/format-normalization.step";
-import { BackgroundRemovalStep } from "@/lib/pipeline/steps/background-removal.step";
-import { HorizontalFlipStep } from "@/lib/pipeline/steps/horizontal-flip.step";
+import {
+  successResponse,
+  errorResponse,
+  withRetryAfter,
+} from "@/lib/utils/api-response";
+import { buildPipeline } from "@/lib/pipeline/pipeline-builder";
+import {
+  DEFAULT_PIPELINE_SPEC,
+  parsePipelineSpecJson,
+} from "@/lib/pipeline/pipeline-spec";
 import { blobStorageService } from "@/lib/services/storage/vercel-blob.service";
 import { BlobStorageError } from "@/lib/services/storage/blob-storage-error";
-import { conversionRepository } from "@/lib/services/conversion.repository";
+import { ConversionRepository } from "@/lib/services/conversion.repository";
+import { ConversionJobRepository } from "@/lib/services/conversion-job.repository";
+import { conversionJobRunner } from "@/lib/services/conversion-job-runner";
+import { createStepServices } from "@/lib/services/step-services";
 import { PipelineStepError } from "@/lib/pipeline/pipeline-step-error";
 import { resolveUser } from "@/lib/auth/resolve-user";
 import {
@@ -16,12 +25,26 @@ import {
   clearGuestCookie,
 } from "@/lib/auth/guest";
 import { toProcessedImage } from "@/lib/types/image";
+import { toSafeFileName } from "@/lib/utils/format";
+import { stripPrivateMetadata } from "@/lib/pipeline/utils/metadata";
+import {
+  OUTPUT_FORMATS,
+  DEFAULT_OUTPUT_FORMAT,
+} from "@/lib/constants/image-formats";
 
 /**
  * POST /api/upload
  *
- * Handles image upload, processing (background removal + horizontal flip),
- * and storage. Returns the processed image URL and metadata.
+ * Handles image upload and queues processing. Returns `202` with the
+ * conversion in the `pending` state; clients poll GET /api/conversions/[id]
+ * until its status is `succeeded` or `failed`.
+ *
+ * Form fields:
+ * - file: the image to process (required)
+ * - pipeline: JSON PipelineSpec describing the steps, their options and the
+ *   output format (optional; defaults to normalize -> remove background -> flip)
+ * - stripGps: "true" to remove GPS location and other private EXIF from the
+ *   original before it is stored (optional; see stripPrivateMetadata)
  *
  * Authentication:
  * - Authenticated users: Use NextAuth session userId
@@ -32,13 +55,19 @@ import { toProcessedImage } from "@/lib/types/image";
  * Flow:
  * 1. Resolve user (handles merge transparently if both session + guest cookie exist)
  * 2. If no user, create new guest user
- * 3. Validate uploaded file (type, size)
- * 4. Store original image in Vercel Blob
- * 5. Run processing pipeline (remove background -> flip horizontally)
- * 6. Store processed image in Vercel Blob
- * 7. Create Conversion record in DB with both blob URLs
- * 8. Return image metadata with proxy URLs (processed + original)
- * 9. Clear guest cookie if merge happened, or set guest cookie if new guest created
+ * 3. Validate uploaded file (type, size) and resolve the pipeline spec;
+ *    refuse with `503 BG_REMOVAL_BUSY` and a Retry-After header while the
+ *    job queue is full (see ConversionJobRunner)
+ * 4. Store original image in Vercel Blob (without private metadata if stripGps is set)
+ * 5. Create a pending Conversion record (with the spec) and its job in one transaction
+ * 6. Return image metadata with proxy URLs; the processed URL serves once the job succeeds
+ * 7. Clear guest cookie if merge happened, or set guest cookie if new guest created
+ * 8. After the response is sent, run queued jobs (see ConversionJobRunner)
+ *
+ * If the client aborts the request (e.g. useUpload's cancel()) before the
+ * conversion is created, nothing is stored or queued: the original's upload
+ * is aborted, or the stored original deleted, and the route responds
+ * `499 PIPELINE_CANCELLED`.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -71,54 +100,88 @@ export async function POST(request: NextRequest) {
       return errorResponse(validation.error, "INVALID_FILE", 400);
     }
 
+    // Resolve the pipeline before storing anything so bad specs fail fast.
+    // The job runner rebuilds it from the stored spec.
+    const pipelineField = formData.get("pipeline");
+    const pipelineSpec =
+      typeof pipelineField === "string" && pipelineField
+        ? parsePipelineSpecJson(pipelineField)
+        : DEFAULT_PIPELINE_SPEC;
+    buildPipeline(pipelineSpec, createStepServices(user.userId));
+    await conversionJobRunner.assertQueueHasRoom();
+    const outputFormat =
+      OUTPUT_FORMATS[pipelineSpec.output?.format ?? DEFAULT_OUTPUT_FORMAT];
+
     // Convert File to Buffer
     const arrayBuffer = await file.arrayBuffer();
-    const imageBuffer = Buffer.from(arrayBuffer);
+    let imageBuffer: Buffer = Buffer.from(arrayBuffer);
+    let originalContentType = file.type;
+
+    // Strip location data before the original is persisted anywhere
+    if (formData.get("stripGps") === "true") {
+      try {
+        const stripped = await stripPrivateMetadata(imageBuffer, file.type);
+        imageBuffer = stripped.image;
+        originalContentType = stripped.contentType;
+      } catch {
+        return errorResponse(
+          "Unsupported or corrupted image format",
+          "INVALID_FILE",
+          400,
+        );
+      }
+    }
 
     // Generate UUID for this conversion
     const { randomUUID } = await import("crypto");
     const conversionId = randomUUID();
-    const cleanFilename = file.name.replace(/[^a-zA-Z0-9.-]/g, "_");
+    const cleanFilename = toSafeFileName(file.name);
 
     // Store original image in blob storage (before processing)
     const originalBlobPath = `originals/${conversionId}/${cleanFilename}`;
     const { url: originalBlobUrl } = await blobStorageService.upload(
       imageBuffer,
       originalBlobPath,
-      file.type,
+      originalContentType,
+      { signal: request.signal },
     );
 
-    // Initialize and execute processing pipeline
-    const pipeline = new ImageProcessingPipeline([
-      new FormatNormalizationStep(),
-      new BackgroundRemovalStep(),
-      new HorizontalFlipStep(),
-    ]);
-    const processedBuffer = await pipeline.execute(imageBuffer);
-
-    // Store processed image in blob storage
-    const processedBlobPath = `images/${conversionId}/${cleanFilename}.png`;
-    const { url: processedBlobUrl, size } = await blobStorageService.upload(
-      processedBuffer,
-      processedBlobPath,
-      "image/png",
-    );
+    // Don't queue (and pay for) processing nobody is waiting for
+    if (request.signal.aborted) {
+      await blobStorageService.delete(originalBlobUrl).catch((error) => {
+        console.error("Failed to delete original of cancelled upload:", error);
+      });
+      return cancelledResponse();
+    }
 
-    // Create conversion record in database (use conversionId for single UUID across blobs and DB)
-    const conversion = await conversionRepository.create({
-      id: conversionId,
-      userId: user.userId,
-      processedBlobUrl,
-      originalBlobUrl,
-      name: file.name,
-      size,
-      processedContentType: "image/png",
-      originalContentType: file.type,
+    // Create the pending conversion and its job together, so every pending
+    // conversion is guaranteed to be picked up by a runner
+    const userId = user.userId;
+    const conversion = await prisma.$transaction(async (tx) => {
+      const created = await new ConversionRepository(tx).create({
+        id: conversionId,
+        userId,
+        status: "pending",
+        originalBlobUrl,
+        name: file.name,
+        processedContentType: outputFormat.contentType,
+        originalContentType,
+        pipelineSpec,
+      });
+      await new ConversionJobRepository(tx).enqueue(created.id);
+      return created;
     });
 
+    // Process in the background once the response has been sent
+    after(() =>
+      conversionJobRunner.runPending().catch((error) => {
+        console.error("Error running conversion jobs:", error);
+      }),
+    );
+
     // Create response with proxy URL
     const processedImage = toProcessedImage(conversion);
-    const response = successResponse(processedImage, 201);
+    const response = successResponse(processedImage, 202);
 
     // Handle cookie management
     if (user.shouldClearGuestCookie) {
@@ -131,9 +194,17 @@ export async function POST(request: NextRequest) {
 
     return response;
   } catch (error) {
+    // Whatever failed, the client went away
+    if (request.signal.aborted) {
+      return cancelledResponse();
+    }
+
     // Handle PipelineStepError with detailed context
     if (error instanceof PipelineStepError) {
-      return errorResponse(error.message, error.code, error.statusCode);
+      return withRetryAfter(
+        errorResponse(error.message, error.code, error.statusCode),
+        error.retryAfterMs,
+      );
     }
 
     // Handle blob storage errors
@@ -150,3 +221,8 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/** Response for uploads the client aborted */
+function cancelledResponse() {
+  return errorResponse("Upload was cancelled", "PIPELINE_CANCELLED", 499);
+}
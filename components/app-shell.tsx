@@ -13,6 +13,11 @@ import ConfirmationModal from "./confirmation-modal";
 import Modal from "./modal";
 import { IconUpload } from "./icons";
 import { ALLOWED_IMAGE_LABEL } from "@/lib/constants/image-formats";
+import {
+  DEFAULT_PIPELINE_OPTIONS,
+  toPipelineSpec,
+  type PipelineOptions,
+} from "@/lib/utils/pipeline-options";
 
 /**
  * Main app shell managing overall layout and state
@@ -28,6 +33,10 @@ export default function AppShell() {
   >(null);
   const [uploadingFile, setUploadingFile] = useState<File | null>(null);
   const [showInvalidFileModal, setShowInvalidFileModal] = useState(false);
+  const [pipelineOptions, setPipelineOptions] = useState<PipelineOptions>(
+    DEFAULT_PIPELINE_OPTIONS,
+  );
+  const [stripGps, setStripGps] = useState(false);
 
   const { conversions, isLoading, deleteConversion, refetch } =
     useConversions();
@@ -35,9 +44,15 @@ export default function AppShell() {
   const {
     upload,
     isUploading,
+    status: uploadStatus,
+    steps: uploadSteps,
     error: uploadError,
+    cancel: cancelUpload,
     reset: resetUpload,
-  } = useUpload();
+  } = useUpload({
+    // Show the queued conversion in the sidebar while it processes
+    onAccepted: refetch,
+  });
 
   const handleFileSelect = async (file: File) => {
     // If not already on upload screen, go there
@@ -48,9 +63,15 @@ export default function AppShell() {
     setUploadingFile(file);
 
     try {
-      const result = await upload(file);
+      const result = await upload(file, toPipelineSpec(pipelineOptions), {
+        stripGps,
+      });
       handleUploadComplete(result.id);
     } catch (err) {
+      // Cancelled by the user; the hook has already reset its state
+      if (err instanceof DOMException && err.name === "AbortError") {
+        return;
+      }
       console.error("Upload failed:", err);
       // Check if error is related to invalid file type to show modal
       const errorMessage = err instanceof Error ? err.message : String(err);
@@ -134,13 +155,21 @@ export default function AppShell() {
                 onDeleteClick={() => requestDelete(selectedConversionId)}
                 onNewConversion={handleNewConversion}
                 onRenameSuccess={refetch}
+                onStatusChange={refetch}
               />
             ) : (
               <ImageDropzone
                 isUploading={isUploading}
+                uploadStatus={uploadStatus}
+                uploadSteps={uploadSteps}
                 uploadingFile={uploadingFile}
                 error={uploadError}
+                pipelineOptions={pipelineOptions}
+                onPipelineOptionsChange={setPipelineOptions}
+                stripGps={stripGps}
+                onStripGpsChange={setStripGps}
                 onFileSelect={handleFileSelect}
+                onCancel={cancelUpload}
                 onRetry={resetUpload}
               />
             )}
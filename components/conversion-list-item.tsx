@@ -2,6 +2,7 @@
 
 import type { ProcessedImage } from "@/lib/types/image";
 import { IconTrash } from "./icons";
+import Spinner from "./spinner";
 
 // Simple relative time formatter (avoids adding date-fns dependency)
 function formatRelativeTime(date: Date): string {
@@ -28,7 +29,8 @@ interface ConversionListItemProps {
 
 /**
  * Sidebar list item for a past conversion
- * Shows thumbnail, filename (truncated), relative time, and delete button.
+ * Shows thumbnail, filename (truncated), relative time (or processing
+ * state while the conversion is in progress or failed), and delete button.
  * Hovering over long filenames shows a tooltip with the full name.
  */
 export default function ConversionListItem({
@@ -73,9 +75,26 @@ export default function ConversionListItem({
         >
           {conversion.name}
         </p>
-        <p className="text-xs text-gray-500 dark:text-gray-400">
-          {relativeTime}
-        </p>
+        {conversion.status === "pending" ||
+        conversion.status === "processing" ? (
+          <p className="flex items-center gap-1.5 text-xs text-primary-600 dark:text-primary-400">
+            <Spinner size="sm" />
+            {conversion.status === "pending" ? "Queued" : "Processing..."}
+          </p>
+        ) : conversion.status === "failed" ? (
+          <p
+            className="text-xs text-error-600 dark:text-error-400 truncate"
+            title={conversion.error?.message}
+          >
+            Failed
+          </p>
+        ) : conversion.status === "cancelled" ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">Cancelled</p>
+        ) : (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {relativeTime}
+          </p>
+        )}
       </div>
 
       {/* Delete button */}
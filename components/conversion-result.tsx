@@ -2,12 +2,25 @@
 
 import { useState, useRef, useEffect } from "react";
 import { useConversion } from "@/lib/hooks/use-conversion";
+import { useConversionVersions } from "@/lib/hooks/use-conversion-versions";
+import { usePresets } from "@/lib/hooks/use-presets";
+import {
+  OUTPUT_FORMATS,
+  getOutputExtension,
+} from "@/lib/constants/image-formats";
+import type { OutputPresetId } from "@/lib/constants/output-presets";
 import type { ProcessedImage } from "@/lib/types/image";
+import type { EdgeRefinementOptions, PipelineSpec } from "@/lib/types/pipeline";
 import { formatFileSize, getBaseName, getExtension } from "@/lib/utils/format";
 import TransparencyBackground from "./transparency-background";
+import Alert from "./alert";
 import Button from "./button";
 import Card from "./card";
 import Spinner from "./spinner";
+import MaskEditor from "./mask-editor";
+import EdgeRefinementPanel from "./edge-refinement-panel";
+import ReprocessPanel from "./reprocess-panel";
+import VersionPicker from "./version-picker";
 import {
   IconTrash,
   IconPlus,
@@ -23,6 +36,8 @@ interface ConversionResultProps {
   onDeleteClick: (id: string) => void;
   onNewConversion: () => void;
   onRenameSuccess?: () => void;
+  /** Called when the conversion's status changes while shown (e.g. reprocessing) */
+  onStatusChange?: () => void;
 }
 
 /**
@@ -35,15 +50,47 @@ export default function ConversionResult({
   onDeleteClick,
   onNewConversion,
   onRenameSuccess,
+  onStatusChange,
 }: ConversionResultProps) {
-  const { conversion, isLoading, error, rename } = useConversion(
-    conversionId,
-    { initialData: conversionProp }
-  );
+  const {
+    conversion,
+    isLoading,
+    error,
+    rename,
+    refineMask,
+    applyEdgeRefinement,
+    reprocess,
+    restoreVersion,
+  } = useConversion(conversionId, { initialData: conversionProp });
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState("");
   const [copied, setCopied] = useState(false);
+  const { presets } = usePresets();
+  // "" downloads the processed image as is, "mask" the alpha mask
+  const [downloadPreset, setDownloadPreset] = useState<
+    OutputPresetId | "mask" | ""
+  >("");
+  // Tool shown in place of the before/after comparison
+  const [activeTool, setActiveTool] = useState<
+    "mask" | "edges" | "reprocess" | null
+  >(null);
+  const { versions, deleteVersion } = useConversionVersions(
+    conversionId,
+    conversion?.versionId ?? null,
+  );
+  // Earlier version shown instead of the current one, for comparison
+  const [viewedVersionId, setViewedVersionId] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const previousStatusRef = useRef(conversion?.status);
+
+  const status = conversion?.status;
+  useEffect(() => {
+    const previousStatus = previousStatusRef.current;
+    previousStatusRef.current = status;
+    if (!previousStatus || !status || previousStatus === status) return;
+
+    onStatusChange?.();
+  }, [status, onStatusChange]);
 
   useEffect(() => {
     if (isEditing && inputRef.current) {
@@ -104,13 +151,30 @@ export default function ConversionResult({
   const handleDownload = async () => {
     if (!conversion) return;
 
+    // Presets are applied server-side and may change the format
+    const preset = presets.find(({ id }) => id === downloadPreset);
+    const mask = downloadPreset === "mask" ? conversion.maskUrl : null;
+    const downloadUrl = preset
+      ? `${conversion.url}?preset=${preset.id}`
+      : (mask ?? conversion.url);
+    const downloadName = preset
+      ? `${getBaseName(conversion.name)}_${preset.id}.${OUTPUT_FORMATS[preset.format].extension}`
+      : mask
+        ? `${getBaseName(conversion.name)}-mask.png`
+        : `processed_${getBaseName(conversion.name)}.${
+          getOutputExtension(conversion.contentType) ??
+          getExtension(conversion.name).slice(1)
+        }`;
+
     try {
-      const response = await fetch(conversion.url);
+      // Revalidate: the image may have been re-rendered by a refinement
+      const response = await fetch(downloadUrl, { cache: "no-cache" });
+      if (!response.ok) throw new Error("Download failed");
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `processed_${conversion.name}`;
+      a.download = downloadName;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -120,6 +184,50 @@ export default function ConversionResult({
     }
   };
 
+  const handleSaveMask = async (delta: Blob) => {
+    await refineMask(delta);
+    setActiveTool(null);
+  };
+
+  const handleReprocess = async (pipeline?: PipelineSpec) => {
+    await reprocess(pipeline);
+    setActiveTool(null);
+  };
+
+  const handleApplyEdges = async (options: EdgeRefinementOptions) => {
+    await applyEdgeRefinement(options);
+    setActiveTool(null);
+  };
+
+  const handleRestoreVersion = async (versionId: string) => {
+    try {
+      await restoreVersion(versionId);
+      setViewedVersionId(null);
+    } catch {
+      alert("Failed to restore version");
+    }
+  };
+
+  const handleDeleteVersion = async (versionId: string) => {
+    try {
+      await deleteVersion(versionId);
+      setViewedVersionId(null);
+    } catch {
+      alert("Failed to delete version");
+    }
+  };
+
+  const isProcessed = conversion?.status === "succeeded";
+  // Finished without output; can be reprocessed
+  const isStopped =
+    conversion?.status === "failed" || conversion?.status === "cancelled";
+  // The proxy URLs serve whichever version is current; bust the browser cache when it changes
+  const versionQuery = conversion?.versionId ? `?v=${conversion.versionId}` : "";
+  const viewedVersion =
+    versions.find(
+      (version) => version.id === viewedVersionId && !version.isCurrent,
+    ) ?? null;
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-24">
@@ -173,7 +281,9 @@ export default function ConversionResult({
               </h3>
             )}
             <p className="text-sm text-gray-500 dark:text-gray-400">
-              {formatFileSize(conversion.size)} •{" "}
+              {conversion.size !== null && (
+                <>{formatFileSize(conversion.size)} • </>
+              )}
               {new Date(conversion.createdAt).toLocaleDateString(undefined, {
                 month: "short",
                 day: "numeric",
@@ -196,44 +306,191 @@ export default function ConversionResult({
         </div>
       </Card>
 
-      {/* Before/After Comparison */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {/* Original */}
+      {/* Warnings from the run that produced the current image */}
+      {isProcessed && conversion.warnings.length > 0 && (
+        <Alert type="warning">
+          <ul className="list-disc pl-4 space-y-1">
+            {conversion.warnings.map((warning, index) => (
+              <li key={index}>{warning}</li>
+            ))}
+          </ul>
+        </Alert>
+      )}
+
+      {activeTool === "mask" && conversion.maskUrl ? (
         <Card>
           <h3 className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-3">
-            Original
+            Refine mask
           </h3>
-          <div className="flex justify-center">
-            <div className="relative rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden inline-block max-w-full leading-[0]">
-              {/* Checkerboard pattern for transparency */}
-              <TransparencyBackground />
-              <img
-                src={conversion.originalUrl}
-                alt="Original"
-                className="block w-auto h-auto max-w-full max-h-[85dvh] object-contain relative z-10"
-              />
-            </div>
-          </div>
+          <MaskEditor
+            originalUrl={conversion.originalUrl}
+            maskUrl={`${conversion.maskUrl}${versionQuery}`}
+            onSave={handleSaveMask}
+            onCancel={() => setActiveTool(null)}
+          />
         </Card>
-
-        {/* Processed */}
+      ) : activeTool === "reprocess" ? (
         <Card>
           <h3 className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-3">
-            Processed
+            Reprocess
           </h3>
-          <div className="flex justify-center">
-            <div className="relative rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden inline-block max-w-full leading-[0]">
-              {/* Checkerboard pattern for transparency */}
-              <TransparencyBackground />
-              <img
-                src={conversion.url}
-                alt="Processed"
-                className="block w-auto h-auto max-w-full max-h-[85dvh] object-contain relative z-10"
-              />
+          <ReprocessPanel
+            onReprocess={handleReprocess}
+            onCancel={() => setActiveTool(null)}
+          />
+        </Card>
+      ) : activeTool === "edges" && conversion.maskUrl ? (
+        <Card>
+          <h3 className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-3">
+            Refine edges
+          </h3>
+          <EdgeRefinementPanel
+            conversionId={conversion.id}
+            onApply={handleApplyEdges}
+            onCancel={() => setActiveTool(null)}
+          />
+        </Card>
+      ) : (
+        /* Before/After Comparison */
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Original */}
+          <Card>
+            <h3 className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-3">
+              Original
+            </h3>
+            <div className="flex justify-center">
+              <div className="relative rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden inline-block max-w-full leading-[0]">
+                {/* Checkerboard pattern for transparency */}
+                <TransparencyBackground />
+                <img
+                  src={conversion.originalUrl}
+                  alt="Original"
+                  className="block w-auto h-auto max-w-full max-h-[85dvh] object-contain relative z-10"
+                />
+              </div>
             </div>
-          </div>
+          </Card>
+
+          {/* Processed */}
+          <Card>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                {viewedVersion ? `Version ${viewedVersion.number}` : "Processed"}
+              </h3>
+              {viewedVersion ? (
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => handleRestoreVersion(viewedVersion.id)}
+                    disabled={!isProcessed && !isStopped}
+                    className="text-sm text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50 disabled:no-underline"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handleDeleteVersion(viewedVersion.id)}
+                    className="text-sm text-error-600 dark:text-error-400 hover:underline"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => setViewedVersionId(null)}
+                    className="text-sm text-gray-600 dark:text-gray-400 hover:underline"
+                  >
+                    Show current
+                  </button>
+                </div>
+              ) : (isProcessed || isStopped) && (
+                <div className="flex gap-3">
+                  {isProcessed && conversion.maskUrl && (
+                    <>
+                      <button
+                        onClick={() => setActiveTool("edges")}
+                        className="text-sm text-primary-600 dark:text-primary-400 hover:underline"
+                      >
+                        Refine edges
+                      </button>
+                      <button
+                        onClick={() => setActiveTool("mask")}
+                        className="text-sm text-primary-600 dark:text-primary-400 hover:underline"
+                      >
+                        Refine mask
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => setActiveTool("reprocess")}
+                    className="text-sm text-primary-600 dark:text-primary-400 hover:underline"
+                  >
+                    Reprocess
+                  </button>
+                </div>
+              )}
+            </div>
+            {viewedVersion ? (
+              <div className="flex justify-center">
+                <div className="relative rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden inline-block max-w-full leading-[0]">
+                  {/* Checkerboard pattern for transparency */}
+                  <TransparencyBackground />
+                  <img
+                    src={viewedVersion.url}
+                    alt={`Version ${viewedVersion.number}`}
+                    className="block w-auto h-auto max-w-full max-h-[85dvh] object-contain relative z-10"
+                  />
+                </div>
+              </div>
+            ) : isProcessed ? (
+              <div className="flex justify-center">
+                <div className="relative rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden inline-block max-w-full leading-[0]">
+                  {/* Checkerboard pattern for transparency */}
+                  <TransparencyBackground />
+                  <img
+                    src={`${conversion.url}${versionQuery}`}
+                    alt="Processed"
+                    className="block w-auto h-auto max-w-full max-h-[85dvh] object-contain relative z-10"
+                  />
+                </div>
+              </div>
+            ) : conversion.status === "failed" ? (
+              <div className="text-center py-12">
+                <p className="text-error-600 dark:text-error-400">
+                  {conversion.error?.message ?? "Processing failed"}
+                </p>
+              </div>
+            ) : conversion.status === "cancelled" ? (
+              <div className="text-center py-12">
+                <p className="text-gray-500 dark:text-gray-400">
+                  Processing was cancelled
+                </p>
+              </div>
+            ) : (
+              <div className="flex flex-col items-center gap-3 py-12">
+                <Spinner size="lg" />
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {conversion.status === "pending"
+                    ? "Queued for processing..."
+                    : "Processing..."}
+                </p>
+              </div>
+            )}
+          </Card>
+        </div>
+      )}
+
+      {/* Versions */}
+      {!activeTool && versions.length > 1 && (
+        <Card>
+          <h3 className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-3">
+            Versions
+          </h3>
+          <VersionPicker
+            versions={versions}
+            selectedId={viewedVersion?.id ?? conversion.versionId}
+            onSelect={(version) =>
+              setViewedVersionId(version.isCurrent ? null : version.id)
+            }
+          />
         </Card>
-      </div>
+      )}
 
       {/* Actions */}
       {/* URL Display */}
@@ -249,7 +506,7 @@ export default function ConversionResult({
             onClick={handleCopyUrl}
             className="px-4 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 border-l border-gray-200 dark:border-gray-700 transition-colors flex items-center justify-center shrink-0 disabled:cursor-default"
             title={copied ? "Copied!" : "Copy URL"}
-            disabled={copied}
+            disabled={copied || !isProcessed}
           >
             {copied ? (
               <IconCheck
@@ -277,10 +534,36 @@ export default function ConversionResult({
           New Conversion
         </Button>
 
-        <Button onClick={handleDownload} variant="primary" className="flex-1">
-          <IconDownload size="md" />
-          Download
-        </Button>
+        <div className="flex flex-1 gap-2">
+          <select
+            aria-label="Download preset"
+            value={downloadPreset}
+            disabled={!isProcessed}
+            onChange={(e) =>
+              setDownloadPreset(e.target.value as OutputPresetId | "mask" | "")
+            }
+            className="input !w-auto"
+          >
+            <option value="">As processed</option>
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.label}
+              </option>
+            ))}
+            {conversion.maskUrl && (
+              <option value="mask">Alpha mask (PNG)</option>
+            )}
+          </select>
+          <Button
+            onClick={handleDownload}
+            variant="primary"
+            className="flex-1"
+            disabled={!isProcessed}
+          >
+            <IconDownload size="md" />
+            Download
+          </Button>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { EdgeRefinementOptions } from "@/lib/types/pipeline";
+import Alert from "./alert";
+import Button from "./button";
+import Spinner from "./spinner";
+import TransparencyBackground from "./transparency-background";
+
+/** Wait after the last slider change before requesting a preview */
+const PREVIEW_DEBOUNCE_MS = 300;
+
+/** Threshold used when hard edges are first switched on */
+const DEFAULT_THRESHOLD = 128;
+
+interface EdgeRefinementPanelProps {
+  /** Conversion whose edges are refined */
+  conversionId: string;
+  /** Commit the settings (see PUT /api/conversions/[id]/edge-refinement) */
+  onApply: (options: EdgeRefinementOptions) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Slider panel for refining a conversion's cutout edges
+ * Features:
+ * - Shrink/grow, feather and optional hard-edge threshold
+ * - Server-rendered preview, refreshed shortly after the sliders settle
+ * - Applies the settings in place of any earlier edge refinement
+ */
+export default function EdgeRefinementPanel({
+  conversionId,
+  onApply,
+  onCancel,
+}: EdgeRefinementPanelProps) {
+  const [offset, setOffset] = useState(0);
+  const [feather, setFeather] = useState(0);
+  const [hardEdges, setHardEdges] = useState(false);
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isPreviewLoading, setIsPreviewLoading] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const options: EdgeRefinementOptions = {
+    offset,
+    feather,
+    ...(hardEdges && { threshold }),
+  };
+
+  useEffect(() => {
+    const params = new URLSearchParams({
+      offset: String(offset),
+      feather: String(feather),
+    });
+    if (hardEdges) params.set("threshold", String(threshold));
+
+    const timeout = setTimeout(() => {
+      setIsPreviewLoading(true);
+      setPreviewUrl(
+        `/api/conversions/${conversionId}/edge-refinement?${params}`,
+      );
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [conversionId, offset, feather, hardEdges, threshold]);
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      await onApply(options);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to refine edges");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {error && <Alert type="error">{error}</Alert>}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+          Shrink / grow
+          <input
+            type="range"
+            min={-10}
+            max={10}
+            value={offset}
+            onChange={(e) => setOffset(Number(e.target.value))}
+            className="w-24 accent-primary-600"
+          />
+          <span className="w-8 text-right tabular-nums">{offset}</span>
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+          Feather
+          <input
+            type="range"
+            min={0}
+            max={20}
+            value={feather}
+            onChange={(e) => setFeather(Number(e.target.value))}
+            className="w-24 accent-primary-600"
+          />
+          <span className="w-8 text-right tabular-nums">{feather}</span>
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+          <input
+            type="checkbox"
+            checked={hardEdges}
+            onChange={(e) => setHardEdges(e.target.checked)}
+            className="accent-primary-600"
+          />
+          Hard edges
+        </label>
+
+        {hardEdges && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+            Threshold
+            <input
+              type="range"
+              min={1}
+              max={254}
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="w-24 accent-primary-600"
+            />
+            <span className="w-8 text-right tabular-nums">{threshold}</span>
+          </label>
+        )}
+      </div>
+
+      <div className="flex justify-center">
+        <div className="relative rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden inline-block max-w-full min-h-24 min-w-24 leading-[0]">
+          <TransparencyBackground />
+          {isPreviewLoading && (
+            <div className="absolute inset-0 z-20 flex items-center justify-center">
+              <Spinner size="lg" />
+            </div>
+          )}
+          {previewUrl && (
+            <img
+              src={previewUrl}
+              alt="Edge refinement preview"
+              onLoad={() => {
+                setIsPreviewLoading(false);
+                setError(null);
+              }}
+              onError={() => {
+                setIsPreviewLoading(false);
+                setError("Failed to render the preview");
+              }}
+              className="block w-auto h-auto max-w-full max-h-[85dvh] object-contain relative z-10"
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" onClick={onCancel} disabled={isApplying}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          onClick={handleApply}
+          disabled={!previewUrl}
+          isLoading={isApplying}
+        >
+          Apply
+        </Button>
+      </div>
+    </div>
+  );
+}
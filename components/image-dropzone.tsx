@@ -4,18 +4,57 @@ import { useRef, useState, DragEvent } from "react";
 import Alert from "./alert";
 import Spinner from "./spinner";
 import ScannerPreview from "./scanner-preview";
+import PipelineOptionsPanel from "./pipeline-options-panel";
 import {
   ALLOWED_IMAGE_ACCEPT,
   ALLOWED_IMAGE_LABEL,
   MAX_FILE_SIZE_LABEL,
 } from "@/lib/constants/image-formats";
 import { IconUpload } from "./icons";
+import type { PipelineOptions } from "@/lib/utils/pipeline-options";
+import type { ConversionStatus } from "@/lib/types/image";
+import type { StepProgress } from "@/lib/types/pipeline";
+
+/** Status line shown under the preview while an upload is in flight */
+const UPLOAD_STATUS_LABELS: Record<ConversionStatus, string> = {
+  pending: "Queued for processing",
+  processing: "Removing background and applying transformations",
+  succeeded: "Finishing up",
+  failed: "Processing failed",
+  cancelled: "Cancelling",
+};
+
+/** Display names for pipeline steps in the progress list */
+const STEP_LABELS: Record<string, string> = {
+  "format-normalization": "Preparing image",
+  "background-removal": "Removing background",
+  "local-background-removal": "Removing background",
+  defringe: "Removing edge fringe",
+  "edge-refinement": "Refining edges",
+  "background-replacement": "Replacing background",
+  "auto-crop": "Cropping to subject",
+  rotation: "Rotating",
+  "horizontal-flip": "Flipping",
+  "preset-framing": "Framing for marketplace",
+  "output-encoding": "Encoding output",
+};
 
 interface ImageDropzoneProps {
   isUploading: boolean;
+  /** Processing state once the upload has been accepted */
+  uploadStatus?: ConversionStatus | null;
+  /** Live per-step progress of the upload being processed */
+  uploadSteps?: StepProgress[];
   uploadingFile?: File | null;
   error?: string | null;
+  pipelineOptions: PipelineOptions;
+  onPipelineOptionsChange: (options: PipelineOptions) => void;
+  /** Remove location data from the original before it is stored */
+  stripGps: boolean;
+  onStripGpsChange: (stripGps: boolean) => void;
   onFileSelect: (file: File) => Promise<void>;
+  /** Abort the upload in flight, or cancel its processing once accepted */
+  onCancel: () => void;
   onRetry: () => void;
 }
 
@@ -24,15 +63,25 @@ interface ImageDropzoneProps {
  * Features:
  * - Click to browse OR drag-and-drop
  * - Client-side file validation
- * - Loading states with spinner
+ * - Loading states with spinner and live per-step progress, with a cancel
+ *   button
  * - Error display with retry
+ * - Processing options for the next upload, including stripping location
+ *   data from the original
  * - Full-page drag overlay (rendered via portal managed by parent)
  */
 export default function ImageDropzone({
   isUploading,
+  uploadStatus,
+  uploadSteps = [],
   uploadingFile,
   error,
+  pipelineOptions,
+  onPipelineOptionsChange,
+  stripGps,
+  onStripGpsChange,
   onFileSelect,
+  onCancel,
   onRetry,
 }: ImageDropzoneProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -110,12 +159,27 @@ export default function ImageDropzone({
             )}
             <div className="text-center">
               <p className="text-lg font-medium text-gray-900 dark:text-gray-100">
-                Processing your image...
-              </p>
-              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                Removing background and applying transformations
+                {uploadStatus ? "Processing your image..." : "Uploading..."}
               </p>
+              {uploadSteps.length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                  {uploadStatus
+                    ? UPLOAD_STATUS_LABELS[uploadStatus]
+                    : "Sending your image to the server"}
+                </p>
+              )}
             </div>
+            {uploadSteps.length > 0 && <StepProgressList steps={uploadSteps} />}
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onCancel();
+              }}
+              className="text-sm text-gray-600 dark:text-gray-400 hover:underline"
+            >
+              {uploadStatus ? "Cancel processing" : "Cancel upload"}
+            </button>
           </div>
         ) : (
           <div className="flex flex-col items-center gap-4 py-12">
@@ -148,6 +212,73 @@ export default function ImageDropzone({
           disabled={isUploading}
         />
       </div>
+
+      {/* Processing Options */}
+      {!isUploading && (
+        <>
+          <PipelineOptionsPanel
+            options={pipelineOptions}
+            onChange={onPipelineOptionsChange}
+          />
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-200">
+            <input
+              type="checkbox"
+              checked={stripGps}
+              onChange={(e) => onStripGpsChange(e.target.checked)}
+              className="h-4 w-4 accent-primary-600"
+            />
+            Remove location data from the stored original
+          </label>
+        </>
+      )}
     </div>
   );
 }
+
+/**
+ * Ordered list of pipeline steps with their live status
+ */
+function StepProgressList({ steps }: { steps: StepProgress[] }) {
+  return (
+    <ol className="w-full max-w-xs space-y-1.5 text-sm" aria-live="polite">
+      {steps.map((step, index) => (
+        <li key={`${index}-${step.name}`} className="flex items-center gap-2">
+          <span className="flex h-4 w-4 items-center justify-center">
+            {step.status === "running" ? (
+              <Spinner size="sm" />
+            ) : (
+              <span
+                className={`h-2 w-2 rounded-full ${
+                  step.status === "succeeded"
+                    ? "bg-green-500"
+                    : step.status === "failed"
+                      ? "bg-red-500"
+                      : "bg-gray-300 dark:bg-gray-600"
+                }`}
+              />
+            )}
+          </span>
+          <span
+            className={`flex-1 ${
+              step.status === "pending"
+                ? "text-gray-400 dark:text-gray-500"
+                : "text-gray-700 dark:text-gray-300"
+            }`}
+          >
+            {STEP_LABELS[step.name] ?? step.name}
+            {step.retries > 0 && (
+              <span className="ml-1 text-xs text-amber-600 dark:text-amber-400">
+                (retry {step.retries})
+              </span>
+            )}
+          </span>
+          {step.durationMs !== null && (
+            <span className="text-xs tabular-nums text-gray-400 dark:text-gray-500">
+              {(step.durationMs / 1000).toFixed(1)}s
+            </span>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,439 @@
+"use client";
+
+import { useState, useRef, useEffect, useCallback, PointerEvent } from "react";
+import Alert from "./alert";
+import Button from "./button";
+import Spinner from "./spinner";
+import TransparencyBackground from "./transparency-background";
+
+type BrushTool = "restore" | "erase";
+
+/** Opacity of removed regions in the preview, so they can be restored */
+const REMOVED_PREVIEW_OPACITY = 0.3;
+
+/** Undo steps kept (each holds a full copy of the mask) */
+const MAX_HISTORY = 20;
+
+interface MaskEditorProps {
+  /** Proxy URL of the original image */
+  originalUrl: string;
+  /** Proxy URL of the current grayscale mask */
+  maskUrl: string;
+  /** Submit the edit as an RGBA PNG delta (see PATCH /api/conversions/[id]/mask) */
+  onSave: (delta: Blob) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Brush editor for refining a conversion's cutout mask
+ * Features:
+ * - Restore and erase brushes with size and hardness
+ * - Removed regions shown faintly so they can be painted back
+ * - Undo/redo (buttons, Ctrl+Z / Ctrl+Shift+Z)
+ * - Submits only the changed pixels as a mask delta
+ */
+export default function MaskEditor({
+  originalUrl,
+  maskUrl,
+  onSave,
+  onCancel,
+}: MaskEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<ImageData | null>(null);
+  const baseMaskRef = useRef<Uint8ClampedArray | null>(null);
+  const maskRef = useRef<Uint8ClampedArray | null>(null);
+  const undoRef = useRef<Uint8ClampedArray[]>([]);
+  const redoRef = useRef<Uint8ClampedArray[]>([]);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  const [tool, setTool] = useState<BrushTool>("restore");
+  const [brushSize, setBrushSize] = useState(30);
+  const [hardness, setHardness] = useState(50);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Mirrors the undo/redo stack sizes so the buttons re-render
+  const [history, setHistory] = useState({ undo: 0, redo: 0 });
+
+  const syncHistory = () =>
+    setHistory({
+      undo: undoRef.current.length,
+      redo: redoRef.current.length,
+    });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const [original, mask] = await Promise.all([
+          loadImage(originalUrl),
+          loadImage(maskUrl),
+        ]);
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+
+        // Edit at the mask's resolution; the original is scaled to match
+        const width = mask.naturalWidth;
+        const height = mask.naturalHeight;
+        canvas.width = width;
+        canvas.height = height;
+
+        const preview = readPixels(original, width, height);
+        const maskPixels = readPixels(mask, width, height).data;
+        const values = new Uint8ClampedArray(width * height);
+        for (let i = 0; i < values.length; i++) {
+          values[i] = maskPixels[i * 4];
+        }
+
+        previewRef.current = preview;
+        baseMaskRef.current = values.slice();
+        maskRef.current = values;
+        undoRef.current = [];
+        redoRef.current = [];
+        syncHistory();
+        renderRegion(0, 0, width, height);
+        setIsLoaded(true);
+      } catch {
+        if (!cancelled) setError("Failed to load the mask");
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [originalUrl, maskUrl]);
+
+  /** Copy mask values into the preview's alpha and redraw a region */
+  const renderRegion = (x: number, y: number, w: number, h: number) => {
+    const canvas = canvasRef.current;
+    const preview = previewRef.current;
+    const mask = maskRef.current;
+    if (!canvas || !preview || !mask) return;
+
+    const { width } = preview;
+    for (let row = y; row < y + h; row++) {
+      for (let col = x; col < x + w; col++) {
+        const i = row * width + col;
+        const value = mask[i];
+        preview.data[i * 4 + 3] =
+          value + (255 - value) * REMOVED_PREVIEW_OPACITY;
+      }
+    }
+
+    canvas.getContext("2d")?.putImageData(preview, 0, 0, x, y, w, h);
+  };
+
+  /** Paint one brush dab centered on a mask pixel */
+  const stamp = (cx: number, cy: number, radius: number) => {
+    const mask = maskRef.current;
+    const preview = previewRef.current;
+    if (!mask || !preview) return;
+
+    const { width, height } = preview;
+    const solidRadius = radius * (hardness / 100);
+    const x0 = Math.max(0, Math.floor(cx - radius));
+    const y0 = Math.max(0, Math.floor(cy - radius));
+    const x1 = Math.min(width - 1, Math.ceil(cx + radius));
+    const y1 = Math.min(height - 1, Math.ceil(cy + radius));
+    if (x1 < x0 || y1 < y0) return;
+
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const distance = Math.hypot(x - cx, y - cy);
+        if (distance > radius) continue;
+
+        // Full strength inside the hard core, fading to zero at the edge
+        const strength =
+          distance <= solidRadius
+            ? 1
+            : (radius - distance) / (radius - solidRadius);
+        const i = y * width + x;
+        // Max/min keeps overlapping dabs of one stroke from stacking up
+        mask[i] =
+          tool === "restore"
+            ? Math.max(mask[i], 255 * strength)
+            : Math.min(mask[i], 255 * (1 - strength));
+      }
+    }
+
+    renderRegion(x0, y0, x1 - x0 + 1, y1 - y0 + 1);
+  };
+
+  /** Map a pointer position to mask pixels; the brush size is in screen pixels */
+  const toMaskPoint = (e: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return {
+      x: (e.clientX - rect.left) * scale,
+      y: (e.clientY - rect.top) * scale,
+      radius: Math.max(0.5, (brushSize / 2) * scale),
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!isLoaded || isSaving || !maskRef.current) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    undoRef.current = [
+      ...undoRef.current.slice(-(MAX_HISTORY - 1)),
+      maskRef.current.slice(),
+    ];
+    redoRef.current = [];
+    syncHistory();
+
+    const { x, y, radius } = toMaskPoint(e);
+    stamp(x, y, radius);
+    lastPointRef.current = { x, y };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    const last = lastPointRef.current;
+    if (!last) return;
+
+    // Interpolate dabs so fast strokes stay continuous
+    const { x, y, radius } = toMaskPoint(e);
+    const spacing = Math.max(1, radius / 4);
+    const steps = Math.ceil(Math.hypot(x - last.x, y - last.y) / spacing);
+    for (let step = 1; step <= steps; step++) {
+      stamp(
+        last.x + ((x - last.x) * step) / steps,
+        last.y + ((y - last.y) * step) / steps,
+        radius,
+      );
+    }
+    lastPointRef.current = { x, y };
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const restoreSnapshot = useCallback(
+    (from: Uint8ClampedArray[], to: Uint8ClampedArray[]) => {
+      const snapshot = from.pop();
+      const mask = maskRef.current;
+      const preview = previewRef.current;
+      if (!snapshot || !mask || !preview) return;
+
+      to.push(mask.slice());
+      maskRef.current = snapshot;
+      renderRegion(0, 0, preview.width, preview.height);
+      syncHistory();
+    },
+    [],
+  );
+
+  const undo = useCallback(
+    () => restoreSnapshot(undoRef.current, redoRef.current),
+    [restoreSnapshot],
+  );
+  const redo = useCallback(
+    () => restoreSnapshot(redoRef.current, undoRef.current),
+    [restoreSnapshot],
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  const handleSave = async () => {
+    const mask = maskRef.current;
+    const base = baseMaskRef.current;
+    const preview = previewRef.current;
+    if (!mask || !base || !preview) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const delta = await createMaskDelta(
+        base,
+        mask,
+        preview.width,
+        preview.height,
+      );
+      await onSave(delta);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the mask");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canUndo = history.undo > 0;
+  const canRedo = history.redo > 0;
+
+  return (
+    <div className="flex flex-col gap-4">
+      {error && <Alert type="error">{error}</Alert>}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex gap-1" role="group" aria-label="Brush">
+          {(["restore", "erase"] as const).map((option) => (
+            <Button
+              key={option}
+              variant={tool === option ? "primary" : "secondary"}
+              aria-pressed={tool === option}
+              onClick={() => setTool(option)}
+            >
+              {option === "restore" ? "Restore" : "Erase"}
+            </Button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+          Size
+          <input
+            type="range"
+            min={2}
+            max={150}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="w-24 accent-primary-600"
+          />
+          <span className="w-8 text-right tabular-nums">{brushSize}</span>
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+          Hardness
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={hardness}
+            onChange={(e) => setHardness(Number(e.target.value))}
+            className="w-24 accent-primary-600"
+          />
+          <span className="w-8 text-right tabular-nums">{hardness}</span>
+        </label>
+
+        <div className="flex gap-1">
+          <Button
+            variant="secondary"
+            onClick={undo}
+            disabled={!canUndo || isSaving}
+            title="Undo (Ctrl+Z)"
+          >
+            Undo
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={redo}
+            disabled={!canRedo || isSaving}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            Redo
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex justify-center">
+        <div className="relative rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden inline-block max-w-full leading-[0]">
+          <TransparencyBackground />
+          {!isLoaded && !error && (
+            <div className="absolute inset-0 z-20 flex items-center justify-center">
+              <Spinner size="lg" />
+            </div>
+          )}
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="block max-w-full max-h-[85dvh] relative z-10 cursor-crosshair touch-none"
+            aria-label="Mask editor canvas"
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          onClick={handleSave}
+          disabled={!isLoaded || !canUndo}
+          isLoading={isSaving}
+        >
+          Save mask
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load ${url}`));
+    image.src = url;
+  });
+}
+
+/** Draw an image scaled to the given size and read back its RGBA pixels */
+function readPixels(
+  image: HTMLImageElement,
+  width: number,
+  height: number,
+): ImageData {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("Canvas is not supported");
+  context.drawImage(image, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+}
+
+/**
+ * Encode the changed pixels as a mask delta: red holds the new mask value
+ * and alpha marks the pixel as edited; unchanged pixels stay transparent.
+ */
+function createMaskDelta(
+  base: Uint8ClampedArray,
+  mask: Uint8ClampedArray,
+  width: number,
+  height: number,
+): Promise<Blob> {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported");
+
+  const delta = context.createImageData(width, height);
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] !== base[i]) {
+      delta.data[i * 4] = mask[i];
+      delta.data[i * 4 + 1] = mask[i];
+      delta.data[i * 4 + 2] = mask[i];
+      delta.data[i * 4 + 3] = 255;
+    }
+  }
+  context.putImageData(delta, 0, 0);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to encode the mask")),
+      "image/png",
+    );
+  });
+}
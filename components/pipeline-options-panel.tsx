@@ -0,0 +1,542 @@
+"use client";
+
+import {
+  OUTPUT_FORMATS,
+  ANIMATED_OUTPUT_FORMATS,
+  MAX_ANIMATION_FRAMES,
+  METADATA_POLICIES,
+  LOSSLESS_CAPABLE_FORMATS,
+  OPAQUE_OUTPUT_FORMATS,
+  QUALITY_OUTPUT_FORMATS,
+  type MetadataPolicy,
+  type OutputFormat,
+} from "@/lib/constants/image-formats";
+import type { OutputPresetId } from "@/lib/constants/output-presets";
+import { usePresets } from "@/lib/hooks/use-presets";
+import {
+  BACKGROUND_CHOICES,
+  BACKGROUND_REMOVAL_METHODS,
+  FOREGROUND_TYPES,
+  ROTATION_CHOICES,
+  SHADOW_CHOICES,
+  SUBJECT_SCALE_CHOICES,
+  reframesSubject,
+  type BackgroundChoice,
+  type BackgroundRemovalMethod,
+  type ForegroundType,
+  type PipelineOptions,
+  type ShadowChoice,
+} from "@/lib/utils/pipeline-options";
+
+interface PipelineOptionsPanelProps {
+  options: PipelineOptions;
+  onChange: (options: PipelineOptions) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Processing options applied to the next upload
+ * (removal method and Remove.bg features, defringe, full-resolution proxy,
+ * auto-crop, horizontal flip, rotation, background, output format and
+ * animation, marketplace preset, output metadata)
+ */
+export default function PipelineOptionsPanel({
+  options,
+  onChange,
+  disabled = false,
+}: PipelineOptionsPanelProps) {
+  const { presets } = usePresets();
+
+  // Formats without alpha flatten a transparent cutout onto a matte color;
+  // presets flatten onto their own background
+  const showMatte =
+    options.background === "transparent" &&
+    !options.outputPreset &&
+    OPAQUE_OUTPUT_FORMATS.includes(options.outputFormat);
+  const showLossless =
+    !options.outputPreset &&
+    LOSSLESS_CAPABLE_FORMATS.includes(options.outputFormat);
+  const showQuality =
+    !options.outputPreset &&
+    QUALITY_OUTPUT_FORMATS.includes(options.outputFormat) &&
+    !(showLossless && options.outputLossless);
+  const showAnimation =
+    !options.outputPreset &&
+    ANIMATED_OUTPUT_FORMATS.includes(options.outputFormat);
+  // Remove.bg features only apply to the remote methods
+  const showRemoveBg = options.backgroundRemoval !== "local";
+
+  return (
+    <fieldset
+      disabled={disabled}
+      className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end"
+    >
+      <div>
+        <label htmlFor="pipeline-background-removal" className="label">
+          Background removal
+        </label>
+        <select
+          id="pipeline-background-removal"
+          value={options.backgroundRemoval}
+          onChange={(e) =>
+            onChange({
+              ...options,
+              backgroundRemoval: e.target.value as BackgroundRemovalMethod,
+            })
+          }
+          className="input"
+        >
+          {Object.entries(BACKGROUND_REMOVAL_METHODS).map(([method, label]) => (
+            <option key={method} value={method}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {showRemoveBg && (
+        <>
+          <div>
+            <label htmlFor="pipeline-foreground-type" className="label">
+              Subject type
+            </label>
+            <select
+              id="pipeline-foreground-type"
+              value={options.foregroundType}
+              onChange={(e) =>
+                onChange({
+                  ...options,
+                  foregroundType: e.target.value as ForegroundType,
+                })
+              }
+              className="input"
+            >
+              {Object.entries(FOREGROUND_TYPES).map(([type, label]) => (
+                <option key={type} value={type}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="pipeline-shadow" className="label">
+              Shadow
+            </label>
+            <select
+              id="pipeline-shadow"
+              value={options.shadow}
+              onChange={(e) =>
+                onChange({
+                  ...options,
+                  shadow: e.target.value as ShadowChoice,
+                })
+              }
+              className="input"
+            >
+              {Object.entries(SHADOW_CHOICES).map(([shadow, label]) => (
+                <option key={shadow} value={shadow}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="pipeline-subject-scale" className="label">
+              Subject size
+            </label>
+            <select
+              id="pipeline-subject-scale"
+              value={options.subjectScale ?? ""}
+              onChange={(e) =>
+                onChange({
+                  ...options,
+                  subjectScale: e.target.value
+                    ? (Number(
+                        e.target.value,
+                      ) as PipelineOptions["subjectScale"])
+                    : null,
+                })
+              }
+              className="input"
+            >
+              <option value="">Original</option>
+              {SUBJECT_SCALE_CHOICES.map((scale) => (
+                <option key={scale} value={scale}>
+                  {scale}%, centered
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 py-3">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-200">
+              <input
+                type="checkbox"
+                checked={options.removeBgCrop}
+                onChange={(e) =>
+                  onChange({ ...options, removeBgCrop: e.target.checked })
+                }
+                className="h-4 w-4 accent-primary-600"
+              />
+              Crop empty space
+            </label>
+            {options.removeBgCrop && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                Margin
+                <input
+                  type="number"
+                  min={0}
+                  max={50}
+                  value={options.removeBgCropMargin}
+                  onChange={(e) =>
+                    onChange({
+                      ...options,
+                      removeBgCropMargin: Math.min(
+                        50,
+                        Math.max(0, Number(e.target.value) || 0),
+                      ),
+                    })
+                  }
+                  className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900"
+                />
+                %
+              </label>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 py-3">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-200">
+          <input
+            type="checkbox"
+            checked={options.autoCrop}
+            onChange={(e) =>
+              onChange({ ...options, autoCrop: e.target.checked })
+            }
+            className="h-4 w-4 accent-primary-600"
+          />
+          Crop to subject
+        </label>
+        {options.autoCrop && (
+          <>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+              Padding
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={options.cropPaddingPercent}
+                onChange={(e) =>
+                  onChange({
+                    ...options,
+                    cropPaddingPercent: Math.min(
+                      100,
+                      Math.max(0, Number(e.target.value) || 0),
+                    ),
+                  })
+                }
+                className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900"
+              />
+              %
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+              <input
+                type="checkbox"
+                checked={options.cropSquare}
+                onChange={(e) =>
+                  onChange({ ...options, cropSquare: e.target.checked })
+                }
+                className="h-4 w-4 accent-primary-600"
+              />
+              Square
+            </label>
+          </>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-200 py-3">
+        <input
+          type="checkbox"
+          checked={options.defringe}
+          onChange={(e) => onChange({ ...options, defringe: e.target.checked })}
+          className="h-4 w-4 accent-primary-600"
+        />
+        Remove edge color fringe
+      </label>
+
+      {showRemoveBg && !reframesSubject(options) && (
+        <label
+          className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-200 py-3"
+          title="Sends a smaller copy for background removal and applies the result to the full-size image"
+        >
+          <input
+            type="checkbox"
+            checked={options.fullResolution}
+            onChange={(e) =>
+              onChange({ ...options, fullResolution: e.target.checked })
+            }
+            className="h-4 w-4 accent-primary-600"
+          />
+          Keep full resolution
+        </label>
+      )}
+
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-200 py-3">
+        <input
+          type="checkbox"
+          checked={options.flip}
+          onChange={(e) => onChange({ ...options, flip: e.target.checked })}
+          className="h-4 w-4 accent-primary-600"
+        />
+        Flip horizontally
+      </label>
+
+      <div>
+        <label htmlFor="pipeline-rotation" className="label">
+          Rotation
+        </label>
+        <select
+          id="pipeline-rotation"
+          value={options.rotation}
+          onChange={(e) =>
+            onChange({
+              ...options,
+              rotation: Number(e.target.value) as PipelineOptions["rotation"],
+            })
+          }
+          className="input"
+        >
+          {ROTATION_CHOICES.map((degrees) => (
+            <option key={degrees} value={degrees}>
+              {degrees === 0 ? "None" : `${degrees}°`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="pipeline-background" className="label">
+          Background
+        </label>
+        <div className="flex gap-2">
+          <select
+            id="pipeline-background"
+            value={options.background}
+            onChange={(e) =>
+              onChange({
+                ...options,
+                background: e.target.value as BackgroundChoice,
+              })
+            }
+            className="input"
+          >
+            {Object.entries(BACKGROUND_CHOICES).map(([choice, label]) => (
+              <option key={choice} value={choice}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {options.background === "color" && (
+            <input
+              type="color"
+              aria-label="Background color"
+              value={options.backgroundColor}
+              onChange={(e) =>
+                onChange({ ...options, backgroundColor: e.target.value })
+              }
+              className="h-12 w-12 shrink-0 rounded-lg border border-gray-300 dark:border-gray-700 bg-transparent cursor-pointer"
+            />
+          )}
+          {options.background === "gradient" &&
+            options.gradientColors.map((color, index) => (
+              <input
+                key={index}
+                type="color"
+                aria-label={
+                  index === 0 ? "Gradient top color" : "Gradient bottom color"
+                }
+                value={color}
+                onChange={(e) => {
+                  const gradientColors: [string, string] = [
+                    ...options.gradientColors,
+                  ];
+                  gradientColors[index] = e.target.value;
+                  onChange({ ...options, gradientColors });
+                }}
+                className="h-12 w-12 shrink-0 rounded-lg border border-gray-300 dark:border-gray-700 bg-transparent cursor-pointer"
+              />
+            ))}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="pipeline-output-format" className="label">
+          Output format
+        </label>
+        <div className="flex gap-2">
+          <select
+            id="pipeline-output-format"
+            value={options.outputFormat}
+            disabled={options.outputPreset !== null}
+            onChange={(e) =>
+              onChange({
+                ...options,
+                outputFormat: e.target.value as OutputFormat,
+              })
+            }
+            className="input"
+          >
+            {Object.entries(OUTPUT_FORMATS).map(([format, { label }]) => (
+              <option key={format} value={format}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {showMatte && (
+            <input
+              type="color"
+              aria-label="Matte color"
+              title="Matte color behind transparent areas"
+              value={options.matteColor}
+              onChange={(e) =>
+                onChange({ ...options, matteColor: e.target.value })
+              }
+              className="h-12 w-12 shrink-0 rounded-lg border border-gray-300 dark:border-gray-700 bg-transparent cursor-pointer"
+            />
+          )}
+        </div>
+        {(showLossless || showQuality) && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 pt-3">
+            {showLossless && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                <input
+                  type="checkbox"
+                  checked={options.outputLossless}
+                  onChange={(e) =>
+                    onChange({ ...options, outputLossless: e.target.checked })
+                  }
+                  className="h-4 w-4 accent-primary-600"
+                />
+                Lossless
+              </label>
+            )}
+            {showQuality && (
+              <label className="flex flex-1 items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                Quality
+                <input
+                  type="range"
+                  min={1}
+                  max={100}
+                  value={options.outputQuality}
+                  onChange={(e) =>
+                    onChange({
+                      ...options,
+                      outputQuality: Number(e.target.value),
+                    })
+                  }
+                  className="flex-1 accent-primary-600"
+                />
+                <span className="w-8 text-right tabular-nums">
+                  {options.outputQuality}
+                </span>
+              </label>
+            )}
+          </div>
+        )}
+        {showAnimation && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 pt-3">
+            <label
+              className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200"
+              title="Processes every frame of animated GIF and WebP uploads instead of only the first"
+            >
+              <input
+                type="checkbox"
+                checked={options.keepAnimation}
+                onChange={(e) =>
+                  onChange({ ...options, keepAnimation: e.target.checked })
+                }
+                className="h-4 w-4 accent-primary-600"
+              />
+              Keep animation
+            </label>
+            {options.keepAnimation && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                Max frames
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_ANIMATION_FRAMES}
+                  value={options.maxFrames}
+                  onChange={(e) =>
+                    onChange({
+                      ...options,
+                      maxFrames: Math.min(
+                        MAX_ANIMATION_FRAMES,
+                        Math.max(1, Math.round(Number(e.target.value)) || 1),
+                      ),
+                    })
+                  }
+                  className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900"
+                />
+              </label>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="pipeline-output-preset" className="label">
+          Marketplace preset
+        </label>
+        <select
+          id="pipeline-output-preset"
+          value={options.outputPreset ?? ""}
+          onChange={(e) => {
+            const outputPreset = (e.target.value ||
+              null) as OutputPresetId | null;
+            const preset = presets.find(({ id }) => id === outputPreset);
+            onChange({
+              ...options,
+              outputPreset,
+              outputFormat: preset?.format ?? options.outputFormat,
+            });
+          }}
+          className="input"
+        >
+          <option value="">None</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.label} ({preset.width}×{preset.height})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="pipeline-output-metadata" className="label">
+          Metadata
+        </label>
+        <select
+          id="pipeline-output-metadata"
+          value={options.outputMetadata}
+          onChange={(e) =>
+            onChange({
+              ...options,
+              outputMetadata: e.target.value as MetadataPolicy,
+            })
+          }
+          className="input"
+        >
+          {Object.entries(METADATA_POLICIES).map(([policy, { label }]) => (
+            <option key={policy} value={policy}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+    </fieldset>
+  );
+}
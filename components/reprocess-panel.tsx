@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import type { PipelineSpec } from "@/lib/types/pipeline";
+import {
+  DEFAULT_PIPELINE_OPTIONS,
+  toPipelineSpec,
+  type PipelineOptions,
+} from "@/lib/utils/pipeline-options";
+import Alert from "./alert";
+import Button from "./button";
+import PipelineOptionsPanel from "./pipeline-options-panel";
+
+interface ReprocessPanelProps {
+  /** Start reprocessing (see POST /api/conversions/[id]/reprocess); undefined keeps the current options */
+  onReprocess: (pipeline?: PipelineSpec) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Confirmation panel for running a conversion again from its original
+ * Features:
+ * - Reruns with the conversion's current options by default
+ * - Optionally picks different processing options
+ */
+export default function ReprocessPanel({
+  onReprocess,
+  onCancel,
+}: ReprocessPanelProps) {
+  const [changeOptions, setChangeOptions] = useState(false);
+  const [options, setOptions] = useState<PipelineOptions>(
+    DEFAULT_PIPELINE_OPTIONS,
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReprocess = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onReprocess(changeOptions ? toPipelineSpec(options) : undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reprocess");
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {error && <Alert type="error">{error}</Alert>}
+
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Runs the original image through the pipeline again. The current result
+        is replaced once processing succeeds.
+      </p>
+
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-200">
+        <input
+          type="checkbox"
+          checked={changeOptions}
+          onChange={(e) => setChangeOptions(e.target.checked)}
+          disabled={isSubmitting}
+          className="h-4 w-4 accent-primary-600"
+        />
+        Use different options
+      </label>
+
+      {changeOptions && (
+        <PipelineOptionsPanel
+          options={options}
+          onChange={setOptions}
+          disabled={isSubmitting}
+        />
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          onClick={handleReprocess}
+          isLoading={isSubmitting}
+        >
+          Reprocess
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import type { ConversionVersionSummary } from "@/lib/types/image";
+import { formatFileSize } from "@/lib/utils/format";
+import TransparencyBackground from "./transparency-background";
+
+interface VersionPickerProps {
+  /** Versions of the conversion, newest first */
+  versions: ConversionVersionSummary[];
+  /** Version shown in the result view */
+  selectedId: string | null;
+  onSelect: (version: ConversionVersionSummary) => void;
+}
+
+/**
+ * Thumbnail strip of a conversion's versions
+ * Selecting a version shows it in the result view for comparison; the
+ * current version is marked
+ */
+export default function VersionPicker({
+  versions,
+  selectedId,
+  onSelect,
+}: VersionPickerProps) {
+  return (
+    <div
+      className="flex gap-3 overflow-x-auto pb-1"
+      role="listbox"
+      aria-label="Versions"
+    >
+      {versions.map((version) => {
+        const isSelected = version.id === selectedId;
+        return (
+          <button
+            key={version.id}
+            role="option"
+            aria-selected={isSelected}
+            onClick={() => onSelect(version)}
+            title={new Date(version.createdAt).toLocaleString()}
+            className={`flex flex-col items-center gap-1 shrink-0 rounded-lg p-1 border-2 transition-colors ${
+              isSelected
+                ? "border-primary-600 dark:border-primary-400"
+                : "border-transparent hover:border-gray-300 dark:hover:border-gray-600"
+            }`}
+          >
+            <div className="relative h-20 w-20 rounded overflow-hidden leading-[0]">
+              <TransparencyBackground />
+              <img
+                src={version.url}
+                alt={`Version ${version.number}`}
+                loading="lazy"
+                className="h-full w-full object-contain relative z-10"
+              />
+            </div>
+            <span className="text-xs text-gray-700 dark:text-gray-200">
+              v{version.number}
+              {version.isCurrent && (
+                <span className="text-primary-600 dark:text-primary-400">
+                  {" "}
+                  • current
+                </span>
+              )}
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {formatFileSize(version.size)}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
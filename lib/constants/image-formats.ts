@@ -29,3 +29,87 @@ export const ALLOWED_IMAGE_LABEL =
 
 /** Size limit label for UI */
 export const MAX_FILE_SIZE_LABEL = `Max ${MAX_FILE_SIZE_MB}MB`;
+
+/**
+ * Encodings available for processed images, keyed by output format name.
+ * Drives the processed blob extension, Conversion.processedContentType and
+ * the download filename. JPEG has no alpha channel, so transparent results
+ * are flattened onto a matte color.
+ */
+export const OUTPUT_FORMATS = {
+  png: { contentType: "image/png", extension: "png", label: "PNG" },
+  webp: { contentType: "image/webp", extension: "webp", label: "WebP" },
+  avif: { contentType: "image/avif", extension: "avif", label: "AVIF" },
+  jpeg: { contentType: "image/jpeg", extension: "jpg", label: "JPEG" },
+  gif: { contentType: "image/gif", extension: "gif", label: "GIF" },
+} as const;
+
+export type OutputFormat = keyof typeof OUTPUT_FORMATS;
+
+/** Output formats that cannot carry transparency */
+export const OPAQUE_OUTPUT_FORMATS: readonly OutputFormat[] = ["jpeg"];
+
+/** Output formats with a lossless mode (lossy otherwise) */
+export const LOSSLESS_CAPABLE_FORMATS: readonly OutputFormat[] = [
+  "webp",
+  "avif",
+];
+
+/** Output formats whose encoder takes a quality setting */
+export const QUALITY_OUTPUT_FORMATS: readonly OutputFormat[] = [
+  "webp",
+  "avif",
+  "jpeg",
+];
+
+/** Output formats that can hold an animation */
+export const ANIMATED_OUTPUT_FORMATS: readonly OutputFormat[] = ["webp", "gif"];
+
+/**
+ * Upper bound on frames processed per animation; every frame runs the
+ * whole pipeline (including background removal), so this caps the cost
+ */
+export const MAX_ANIMATION_FRAMES = 100;
+
+/**
+ * Upper bound on the pixels of all processed frames together (frames ×
+ * width × height), at input and again at reassembly; reassembly holds them
+ * in memory uncompressed, at 4 bytes per pixel
+ */
+export const MAX_ANIMATION_PIXELS = 40_000_000;
+
+/** Frame limit used when an animation spec does not set one */
+export const DEFAULT_ANIMATION_MAX_FRAMES = 30;
+
+/** Output format used when a pipeline spec does not name one */
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = "png";
+
+/** Matte color transparent pixels are flattened onto for opaque formats */
+export const DEFAULT_MATTE_COLOR = "#ffffff";
+
+/**
+ * Metadata kept on processed images, keyed by policy name.
+ * Pipeline images are converted to sRGB, so keeping the color profile
+ * embeds sRGB; copyright and author come from the original's EXIF.
+ */
+export const METADATA_POLICIES = {
+  strip: { label: "Strip all" },
+  icc: { label: "Keep color profile" },
+  copyright: { label: "Keep color profile, copyright and author" },
+} as const;
+
+export type MetadataPolicy = keyof typeof METADATA_POLICIES;
+
+/** Metadata policy used when a pipeline spec does not name one */
+export const DEFAULT_METADATA_POLICY: MetadataPolicy = "strip";
+
+/**
+ * File extension (without dot) for a processed image content type
+ *
+ * @returns The extension, or undefined for unknown content types
+ */
+export function getOutputExtension(contentType: string): string | undefined {
+  return Object.values(OUTPUT_FORMATS).find(
+    (format) => format.contentType === contentType,
+  )?.extension;
+}
@@ -0,0 +1,75 @@
+/**
+ * Marketplace output presets.
+ *
+ * A preset frames the processed subject on a fixed canvas (centered, scaled
+ * to a fill ratio, flattened onto a background color) and encodes it within
+ * the marketplace's file size limit. Presets run as the final pipeline stage,
+ * just before output encoding, and can also be applied on download.
+ */
+
+import type { OutputFormat } from "@/lib/constants/image-formats";
+
+export interface OutputPreset {
+  /** Human-readable name for UI */
+  label: string;
+  /** Canvas width in pixels */
+  width: number;
+  /** Canvas height in pixels */
+  height: number;
+  /** Share of the canvas's width and height the subject may occupy (0-1) */
+  fillRatio: number;
+  /** Hex color the subject is flattened onto */
+  backgroundColor: string;
+  /** Largest accepted file size in bytes */
+  maxFileSizeBytes: number;
+  /** Encoding used unless the pipeline spec names one */
+  format: OutputFormat;
+}
+
+const MB = 1024 * 1024;
+
+export const OUTPUT_PRESETS = {
+  amazon: {
+    label: "Amazon main image",
+    width: 2000,
+    height: 2000,
+    fillRatio: 0.85,
+    backgroundColor: "#ffffff",
+    maxFileSizeBytes: 10 * MB,
+    format: "jpeg",
+  },
+  shopify: {
+    label: "Shopify product",
+    width: 2048,
+    height: 2048,
+    fillRatio: 0.9,
+    backgroundColor: "#ffffff",
+    maxFileSizeBytes: 20 * MB,
+    format: "jpeg",
+  },
+  etsy: {
+    label: "Etsy listing",
+    width: 2700,
+    height: 2025,
+    fillRatio: 0.8,
+    backgroundColor: "#ffffff",
+    maxFileSizeBytes: 1 * MB,
+    format: "jpeg",
+  },
+  instagram: {
+    label: "Instagram post",
+    width: 1080,
+    height: 1350,
+    fillRatio: 0.8,
+    backgroundColor: "#ffffff",
+    maxFileSizeBytes: 8 * MB,
+    format: "jpeg",
+  },
+} as const satisfies Record<string, OutputPreset>;
+
+export type OutputPresetId = keyof typeof OUTPUT_PRESETS;
+
+/** Type guard for preset ids coming from requests */
+export function isOutputPresetId(value: unknown): value is OutputPresetId {
+  return typeof value === "string" && Object.hasOwn(OUTPUT_PRESETS, value);
+}
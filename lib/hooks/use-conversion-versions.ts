@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback } from "react";
+import type { ConversionVersionSummary } from "@/lib/types/image";
+import type { ApiResponse } from "@/lib/types/api";
+
+interface UseConversionVersionsResult {
+  versions: ConversionVersionSummary[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  deleteVersion: (versionId: string) => Promise<void>;
+}
+
+/**
+ * Custom hook to list a conversion's versions
+ * Fetches GET /api/conversions/{id}/versions, again whenever the current
+ * version changes (new run, edit, or restore)
+ *
+ * @param id - Conversion UUID
+ * @param currentVersionId - The conversion's current version, to refetch on change
+ */
+export function useConversionVersions(
+  id: string,
+  currentVersionId: string | null,
+): UseConversionVersionsResult {
+  const [versions, setVersions] = useState<ConversionVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    if (!id) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/conversions/${id}/versions`);
+      const data: ApiResponse<ConversionVersionSummary[]> =
+        await response.json();
+      if (data.success) {
+        setVersions(data.data);
+      } else {
+        setError(data.error.message);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (!currentVersionId) return;
+    fetchVersions();
+  }, [currentVersionId, fetchVersions]);
+
+  const deleteVersion = useCallback(
+    async (versionId: string) => {
+      const response = await fetch(
+        `/api/conversions/${id}/versions/${versionId}`,
+        { method: "DELETE" },
+      );
+      if (!response.ok) {
+        const data: ApiResponse<never> = await response.json();
+        throw new Error(
+          data.success === false
+            ? data.error.message
+            : "Failed to delete version",
+        );
+      }
+      setVersions((current) =>
+        current.filter((version) => version.id !== versionId),
+      );
+    },
+    [id],
+  );
+
+  return {
+    versions,
+    isLoading,
+    error,
+    refetch: fetchVersions,
+    deleteVersion,
+  };
+}
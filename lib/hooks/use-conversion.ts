@@ -1,6 +1,10 @@
 import { useState, useEffect, useCallback } from "react";
 import type { ProcessedImage } from "@/lib/types/image";
 import type { ApiResponse } from "@/lib/types/api";
+import type { EdgeRefinementOptions, PipelineSpec } from "@/lib/types/pipeline";
+
+/** How often a pending or processing conversion is polled */
+const POLL_INTERVAL_MS = 1500;
 
 interface UseConversionOptions {
   /** When provided, skips the initial fetch and uses this data. Used when conversion is already available from list or upload. */
@@ -13,6 +17,18 @@ interface UseConversionResult {
   error: string | null;
   refetch: () => Promise<void>;
   rename: (newName: string) => Promise<void>;
+  /** Submit a mask edit; the conversion is updated with the re-rendered result */
+  refineMask: (delta: Blob) => Promise<void>;
+  /** Commit edge refinement settings; the conversion is updated with the re-rendered result */
+  applyEdgeRefinement: (options: EdgeRefinementOptions) => Promise<void>;
+  /**
+   * Run the conversion again from its original, with its current spec or
+   * the given one. Resolves once the server has queued it; the conversion
+   * is then polled until processing finishes.
+   */
+  reprocess: (pipeline?: PipelineSpec) => Promise<void>;
+  /** Make an earlier version the current output */
+  restoreVersion: (versionId: string) => Promise<void>;
 }
 
 export function useConversion(
@@ -55,6 +71,25 @@ export function useConversion(
     fetchConversion();
   }, [id, initialData, fetchConversion]);
 
+  // Follow conversions that are still processing (e.g. after reprocess)
+  const isInProgress =
+    conversion?.status === "pending" || conversion?.status === "processing";
+  useEffect(() => {
+    if (!id || !isInProgress) return;
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/conversions/${id}`);
+        const data: ApiResponse<ProcessedImage> = await response.json();
+        if (data.success) {
+          setConversion(data.data);
+        }
+      } catch {
+        /* keep polling */
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [id, isInProgress]);
+
   const rename = useCallback(
     async (newName: string) => {
       if (!id) return;
@@ -74,5 +109,84 @@ export function useConversion(
     [id, fetchConversion]
   );
 
-  return { conversion, isLoading, error, refetch: fetchConversion, rename };
+  const refineMask = useCallback(
+    async (delta: Blob) => {
+      if (!id) return;
+      const formData = new FormData();
+      formData.append("delta", delta, "mask-delta.png");
+      const response = await fetch(`/api/conversions/${id}/mask`, {
+        method: "PATCH",
+        body: formData,
+      });
+      const data: ApiResponse<ProcessedImage> = await response.json();
+      if (!data.success) {
+        throw new Error(data.error.message);
+      }
+      setConversion(data.data);
+    },
+    [id]
+  );
+
+  const applyEdgeRefinement = useCallback(
+    async (edgeOptions: EdgeRefinementOptions) => {
+      if (!id) return;
+      const response = await fetch(`/api/conversions/${id}/edge-refinement`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(edgeOptions),
+      });
+      const data: ApiResponse<ProcessedImage> = await response.json();
+      if (!data.success) {
+        throw new Error(data.error.message);
+      }
+      setConversion(data.data);
+    },
+    [id]
+  );
+
+  const reprocess = useCallback(
+    async (pipeline?: PipelineSpec) => {
+      if (!id) return;
+      const response = await fetch(`/api/conversions/${id}/reprocess`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(pipeline ? { pipeline } : {}),
+      });
+      const data: ApiResponse<ProcessedImage> = await response.json();
+      if (!data.success) {
+        throw new Error(data.error.message);
+      }
+
+      setConversion(data.data);
+    },
+    [id]
+  );
+
+  const restoreVersion = useCallback(
+    async (versionId: string) => {
+      if (!id) return;
+      const response = await fetch(
+        `/api/conversions/${id}/versions/${versionId}/restore`,
+        { method: "POST" }
+      );
+      const data: ApiResponse<ProcessedImage> = await response.json();
+      if (!data.success) {
+        throw new Error(data.error.message);
+      }
+      setConversion(data.data);
+    },
+    [id]
+  );
+
+  return {
+    conversion,
+    isLoading,
+    error,
+    refetch: fetchConversion,
+    rename,
+    refineMask,
+    applyEdgeRefinement,
+    reprocess,
+    restoreVersion,
+  };
 }
@@ -2,6 +2,9 @@ import { useState, useEffect, useCallback } from "react";
 import type { ProcessedImage } from "@/lib/types/image";
 import type { ApiResponse } from "@/lib/types/api";
 
+/** How often the list is refreshed while a conversion is still processing */
+const POLL_INTERVAL_MS = 2000;
+
 interface UseConversionsResult {
   conversions: ProcessedImage[];
   isLoading: boolean;
@@ -14,15 +17,18 @@ interface UseConversionsResult {
  * Custom hook to manage image conversions
  * Fetches the list of conversions from GET /api/conversions
  * Handles 401 gracefully (unauthenticated/guest with no uploads yet)
+ * Refreshes in the background while any conversion is pending or processing
  */
 export function useConversions(): UseConversionsResult {
   const [conversions, setConversions] = useState<ProcessedImage[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const fetchConversions = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
+  const fetchConversions = useCallback(async (background = false) => {
+    if (!background) {
+      setIsLoading(true);
+      setError(null);
+    }
 
     try {
       const response = await fetch("/api/conversions");
@@ -53,6 +59,8 @@ export function useConversions(): UseConversionsResult {
     }
   }, []);
 
+  const refetch = useCallback(() => fetchConversions(), [fetchConversions]);
+
   const deleteConversion = useCallback(
     async (id: string) => {
       try {
@@ -82,11 +90,23 @@ export function useConversions(): UseConversionsResult {
     fetchConversions();
   }, [fetchConversions]);
 
+  // Keep in-progress items up to date until they finish
+  const hasInProgress = conversions.some(
+    (conversion) =>
+      conversion.status === "pending" || conversion.status === "processing",
+  );
+
+  useEffect(() => {
+    if (!hasInProgress) return;
+    const timer = setInterval(() => fetchConversions(true), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasInProgress, fetchConversions]);
+
   return {
     conversions,
     isLoading,
     error,
-    refetch: fetchConversions,
+    refetch,
     deleteConversion,
   };
 }
@@ -0,0 +1,51 @@
+import { useState, useEffect } from "react";
+import type { OutputPresetSummary } from "@/lib/types/image";
+import type { ApiResponse } from "@/lib/types/api";
+
+interface UsePresetsResult {
+  presets: OutputPresetSummary[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook to load the marketplace output presets
+ * Fetches the list from GET /api/presets once on mount
+ */
+export function usePresets(): UsePresetsResult {
+  const [presets, setPresets] = useState<OutputPresetSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchPresets = async () => {
+      try {
+        const response = await fetch("/api/presets");
+        if (!response.ok) throw new Error("Failed to load presets");
+        const data: ApiResponse<OutputPresetSummary[]> = await response.json();
+        if (cancelled) return;
+        if (data.success) {
+          setPresets(data.data);
+        } else {
+          setError(data.error.message);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "An error occurred");
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchPresets();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { presets, isLoading, error };
+}
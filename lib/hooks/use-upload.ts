@@ -1,30 +1,111 @@
-import { useState, useCallback } from "react";
-import type { ProcessedImage } from "@/lib/types/image";
+import { useState, useCallback, useRef } from "react";
+import type { ConversionStatus, ProcessedImage } from "@/lib/types/image";
 import type { ApiResponse } from "@/lib/types/api";
+import type {
+  ConversionProgressEvent,
+  PipelineSpec,
+  StepProgress,
+} from "@/lib/types/pipeline";
 import {
   ALLOWED_MIME_TYPES,
   MAX_FILE_SIZE_BYTES,
   MAX_FILE_SIZE_MB,
 } from "@/lib/constants/image-formats";
 
+/** How often a pending conversion is polled */
+const POLL_INTERVAL_MS = 1500;
+
+/** Give up waiting (the conversion keeps processing) after this long */
+const MAX_WAIT_MS = 5 * 60 * 1000;
+
+// Map API error codes to user-friendly messages
+const ERROR_MESSAGES: Record<string, string> = {
+  BG_REMOVAL_QUOTA_EXCEEDED:
+    "Background removal quota exceeded. Please try again later.",
+  BG_REMOVAL_SERVICE_UNAVAILABLE:
+    "Background removal service is temporarily unavailable. Please try again.",
+  BG_REMOVAL_BUSY:
+    "We're processing a lot of images right now. Please try again in a moment.",
+  BG_REMOVAL_INVALID_IMAGE:
+    "Invalid or corrupted image file. Please try a different image.",
+  LOCAL_BG_REMOVAL_FAILED:
+    "Local background removal failed. Please try a different image.",
+  NORMALIZATION_FAILED:
+    "Unsupported or corrupted image format. Please try a different image.",
+  INVALID_FILE: "Invalid file. Please upload a valid image.",
+  FILE_REQUIRED: "No file provided. Please select an image to upload.",
+  STORAGE_ERROR: "Failed to store the processed image. Please try again.",
+  PIPELINE_INVALID_SPEC:
+    "Invalid processing options. Please adjust them and try again.",
+  PIPELINE_UNKNOWN_STEP:
+    "Invalid processing options. Please adjust them and try again.",
+  PIPELINE_INVALID_STEP_OPTIONS:
+    "Invalid processing options. Please adjust them and try again.",
+  PIPELINE_TIMEOUT:
+    "Processing took too long. Please try again or use a smaller image.",
+  PIPELINE_CANCELLED: "The upload was cancelled.",
+  ANIMATION_TOO_LARGE:
+    "This animation is too large to process. Please use fewer frames or a smaller image.",
+};
+
+interface UseUploadOptions {
+  /** Called once the server has accepted the upload and queued processing */
+  onAccepted?: (conversion: ProcessedImage) => void;
+}
+
+interface UploadRequestOptions {
+  /** Remove GPS location and other private EXIF from the stored original */
+  stripGps?: boolean;
+}
+
 interface UseUploadResult {
-  upload: (file: File) => Promise<ProcessedImage>;
+  upload: (
+    file: File,
+    pipeline?: PipelineSpec,
+    requestOptions?: UploadRequestOptions,
+  ) => Promise<ProcessedImage>;
   isUploading: boolean;
+  /** Processing state of the current upload once accepted, else null */
+  status: ConversionStatus | null;
+  /** Per-step progress of the current upload, streamed from the server */
+  steps: StepProgress[];
   error: string | null;
+  /**
+   * Abort the current upload. Before the server accepts it nothing is
+   * stored; afterwards its processing is cancelled on the server (the
+   * conversion stays in the history as cancelled, unless it finished
+   * first). The pending `upload` call rejects with an AbortError.
+   */
+  cancel: () => void;
   reset: () => void;
 }
 
 /**
  * Custom hook to manage image upload flow
- * Handles client-side validation, API call, and error mapping
+ * Handles client-side validation, API call, and error mapping.
+ * The server processes uploads asynchronously, so after the upload is
+ * accepted this polls the conversion until it succeeds or fails, and
+ * subscribes to its progress stream to report each pipeline step.
  */
-export function useUpload(): UseUploadResult {
+export function useUpload(options?: UseUploadOptions): UseUploadResult {
+  const { onAccepted } = options ?? {};
   const [isUploading, setIsUploading] = useState(false);
+  const [status, setStatus] = useState<ConversionStatus | null>(null);
+  const [steps, setSteps] = useState<StepProgress[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  /** ID of the current upload's conversion once the server accepted it */
+  const acceptedIdRef = useRef<string | null>(null);
 
   const upload = useCallback(
-    async (file: File): Promise<ProcessedImage> => {
+    async (
+      file: File,
+      pipeline?: PipelineSpec,
+      requestOptions?: UploadRequestOptions,
+    ): Promise<ProcessedImage> => {
       setError(null);
+      setStatus(null);
+      setSteps([]);
 
       // Client-side validation
       if (!(ALLOWED_MIME_TYPES as readonly string[]).includes(file.type)) {
@@ -46,67 +127,273 @@ export function useUpload(): UseUploadResult {
       }
 
       setIsUploading(true);
+      let progress: EventSource | null = null;
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
 
       try {
         const formData = new FormData();
         formData.append("file", file);
+        if (pipeline) {
+          formData.append("pipeline", JSON.stringify(pipeline));
+        }
+        if (requestOptions?.stripGps) {
+          formData.append("stripGps", "true");
+        }
+
+        // Cancelling aborts the request only until the server responds: the
+        // response is read regardless, so an accepted conversion's id is
+        // known and its processing can be cancelled too
+        const request = new AbortController();
+        const abortRequest = () => request.abort();
+        abortController.signal.addEventListener("abort", abortRequest, {
+          once: true,
+        });
 
         const response = await fetch("/api/upload", {
           method: "POST",
           body: formData,
+          signal: request.signal,
         });
+        abortController.signal.removeEventListener("abort", abortRequest);
 
         const data: ApiResponse<ProcessedImage> = await response.json();
 
         if (!data.success) {
-          // Map API error codes to user-friendly messages
-          const errorMessages: Record<string, string> = {
-            BG_REMOVAL_QUOTA_EXCEEDED:
-              "Background removal quota exceeded. Please try again later.",
-            BG_REMOVAL_SERVICE_UNAVAILABLE:
-              "Background removal service is temporarily unavailable. Please try again.",
-            BG_REMOVAL_INVALID_IMAGE:
-              "Invalid or corrupted image file. Please try a different image.",
-            NORMALIZATION_FAILED:
-              "Unsupported or corrupted image format. Please try a different image.",
-            INVALID_FILE: "Invalid file. Please upload a valid image.",
-            FILE_REQUIRED:
-              "No file provided. Please select an image to upload.",
-            STORAGE_ERROR:
-              "Failed to store the processed image. Please try again.",
-          };
-
-          const friendlyMessage =
-            errorMessages[data.error.code] ||
-            data.error.message ||
-            "An error occurred during upload";
-
-          setError(friendlyMessage);
-          throw new Error(friendlyMessage);
+          abortController.signal.throwIfAborted();
+          throw new Error(toFriendlyMessage(data.error));
+        }
+
+        if (abortController.signal.aborted) {
+          // Cancelled while the response was read
+          cancelProcessing(data.data.id);
+          abortController.signal.throwIfAborted();
+        }
+
+        acceptedIdRef.current = data.data.id;
+        setStatus(data.data.status);
+        onAccepted?.(data.data);
+
+        // Progress is best-effort; polling below decides the outcome
+        progress = subscribeToProgress(data.data.id, setSteps);
+
+        const conversion = await waitForConversion(
+          data.data,
+          setStatus,
+          abortController.signal,
+        );
+
+        if (conversion.status === "failed") {
+          throw new Error(
+            toFriendlyMessage(
+              conversion.error ?? { code: "", message: "Processing failed" },
+            ),
+          );
+        }
+
+        if (conversion.status === "cancelled") {
+          throw new Error("Processing was cancelled.");
         }
 
-        return data.data;
+        return conversion;
       } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : "Upload failed";
-        setError(errorMessage);
+        if (abortController.signal.aborted) {
+          // Cancelled on purpose; not an error to show
+          setStatus(null);
+          setSteps([]);
+        } else {
+          const errorMessage =
+            err instanceof Error ? err.message : "Upload failed";
+          setError(errorMessage);
+        }
         throw err;
       } finally {
+        progress?.close();
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null;
+          acceptedIdRef.current = null;
+        }
         setIsUploading(false);
       }
     },
-    [],
+    [onAccepted],
   );
 
+  const cancel = useCallback(() => {
+    const conversionId = acceptedIdRef.current;
+    abortControllerRef.current?.abort();
+
+    // Before acceptance, upload() cancels once the server returns the id
+    if (conversionId) {
+      cancelProcessing(conversionId);
+    }
+  }, []);
+
   const reset = useCallback(() => {
     setError(null);
+    setStatus(null);
+    setSteps([]);
     setIsUploading(false);
   }, []);
 
   return {
     upload,
     isUploading,
+    status,
+    steps,
     error,
+    cancel,
     reset,
   };
 }
+
+/**
+ * Cancel an accepted conversion's processing (POST /api/conversions/{id}/cancel).
+ * Best-effort: a conversion that finished first is kept as is.
+ */
+function cancelProcessing(conversionId: string): void {
+  fetch(`/api/conversions/${conversionId}/cancel`, { method: "POST" }).catch(
+    (err) => {
+      console.error("Failed to cancel processing:", err);
+    },
+  );
+}
+
+/**
+ * Poll GET /api/conversions/{id} until processing finishes
+ *
+ * @throws {DOMException} AbortError once the signal is aborted
+ */
+async function waitForConversion(
+  conversion: ProcessedImage,
+  onStatus: (status: ConversionStatus) => void,
+  signal: AbortSignal,
+): Promise<ProcessedImage> {
+  const deadline = Date.now() + MAX_WAIT_MS;
+  let current = conversion;
+
+  while (current.status === "pending" || current.status === "processing") {
+    if (Date.now() > deadline) {
+      throw new Error(
+        "Processing is taking longer than expected. The result will appear in your history when it is ready.",
+      );
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, POLL_INTERVAL_MS);
+      signal.addEventListener(
+        "abort",
+        () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        { once: true },
+      );
+    });
+    signal.throwIfAborted();
+
+    const response = await fetch(`/api/conversions/${conversion.id}`, {
+      signal,
+    });
+    const data: ApiResponse<ProcessedImage> = await response.json();
+
+    if (!data.success) {
+      throw new Error(toFriendlyMessage(data.error));
+    }
+
+    current = data.data;
+    onStatus(current.status);
+  }
+
+  return current;
+}
+
+/**
+ * Open the conversion's progress stream (GET /api/conversions/{id}/events)
+ * and fold its events into step progress. The stream closes itself after a
+ * terminal event; EventSource reconnects (resuming via Last-Event-ID) when
+ * the server ends a stream early.
+ */
+function subscribeToProgress(
+  conversionId: string,
+  onSteps: (update: (steps: StepProgress[]) => StepProgress[]) => void,
+): EventSource {
+  const source = new EventSource(`/api/conversions/${conversionId}/events`);
+
+  const handleEvent = (message: MessageEvent<string>) => {
+    const event: ConversionProgressEvent = JSON.parse(message.data);
+
+    if (
+      event.type === "conversion.succeeded" ||
+      event.type === "conversion.failed" ||
+      event.type === "conversion.cancelled"
+    ) {
+      source.close();
+      return;
+    }
+
+    onSteps((steps) => applyProgressEvent(steps, event));
+  };
+
+  for (const type of PROGRESS_EVENT_TYPES) {
+    source.addEventListener(type, handleEvent);
+  }
+
+  return source;
+}
+
+/** Named SSE events sent by the progress stream */
+const PROGRESS_EVENT_TYPES: ConversionProgressEvent["type"][] = [
+  "conversion.processing",
+  "conversion.succeeded",
+  "conversion.failed",
+  "conversion.cancelled",
+  "pipeline.started",
+  "step.started",
+  "step.retry",
+  "step.completed",
+  "step.failed",
+  "pipeline.completed",
+];
+
+function applyProgressEvent(
+  steps: StepProgress[],
+  event: ConversionProgressEvent,
+): StepProgress[] {
+  const updateStep = (index: number, update: Partial<StepProgress>) =>
+    steps.map((step, i) => (i === index ? { ...step, ...update } : step));
+
+  switch (event.type) {
+    case "conversion.processing":
+      // A new attempt re-runs every step
+      return [];
+    case "pipeline.started":
+      return event.steps.map((name) => ({
+        name,
+        status: "pending",
+        retries: 0,
+        durationMs: null,
+      }));
+    case "step.started":
+      return updateStep(event.index, { status: "running" });
+    case "step.retry":
+      return updateStep(event.index, { retries: event.attempt });
+    case "step.completed":
+      return updateStep(event.index, {
+        status: "succeeded",
+        durationMs: event.durationMs,
+      });
+    case "step.failed":
+      return updateStep(event.index, { status: "failed" });
+    default:
+      return steps;
+  }
+}
+
+function toFriendlyMessage(error: { code: string; message: string }): string {
+  return (
+    ERROR_MESSAGES[error.code] ||
+    error.message ||
+    "An error occurred during upload"
+  );
+}
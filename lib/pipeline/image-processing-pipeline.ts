@@ -1,19 +1,87 @@
 import type { IImageProcessingStep } from './image-processing-step';
+import { PipelineContext } from './pipeline-context';
+import { PipelineStepError } from './pipeline-step-error';
+import {
+  AnimationTooLargeError,
+  assembleFrames,
+  splitFrames,
+  type AnimationFrames,
+} from './utils/frames';
+import { MAX_ANIMATION_PIXELS } from '@/lib/constants/image-formats';
+import type {
+  PipelineAnimationSpec,
+  PipelineEventListener,
+  PipelineExecutionReport,
+} from '@/lib/types/pipeline';
+
+/** Step name reported on errors while splitting or reassembling frames */
+const ANIMATION_ERROR_SOURCE = 'pipeline';
+
+/** Step name reported on cancellation and whole-run timeouts */
+const RUN_ERROR_SOURCE = 'pipeline';
+
+/**
+ * Cancellation and time limits of a pipeline run
+ */
+export interface PipelineExecuteOptions {
+  /** Cancels the run when aborted (e.g. the client went away) */
+  signal?: AbortSignal;
+  /** Longest the whole run may take, in milliseconds */
+  timeoutMs?: number;
+  /** Longest a single step call may take, for steps without their own timeoutMs */
+  stepTimeoutMs?: number;
+}
+
+/**
+ * Result of a successful pipeline run
+ */
+export interface PipelineResult {
+  /** Final processed image */
+  image: Buffer;
+  /** Per-step timings, retries, image info, metadata and warnings */
+  report: PipelineExecutionReport;
+  /** Metadata stored by steps during the run (see PipelineContext.setMetadata) */
+  metadata: Record<string, unknown>;
+  /** Intermediate images kept by steps (see PipelineContext.setArtifact) */
+  artifacts: Record<string, Buffer>;
+}
 
 /**
  * Orchestrates sequential execution of image processing steps.
  * 
  * The pipeline takes an ordered list of steps and executes them sequentially,
- * passing the output of each step as input to the next. If any step fails
- * by throwing a PipelineStepError, execution stops and the error bubbles up
- * to the caller with full context about which step failed.
+ * threading a PipelineContext through them: each step's output becomes the
+ * context image for the next. If any step fails by throwing a
+ * PipelineStepError, execution stops and the error bubbles up to the caller
+ * with full context about which step failed.
  * 
  * The pipeline itself is intentionally minimal - all error handling, retries,
  * and recovery logic lives within the individual steps, keeping them
- * self-contained and the pipeline logic simple.
+ * self-contained and the pipeline logic simple. Its only extra job is
+ * bookkeeping for the execution report.
+ *
+ * Runs can be cancelled with an AbortSignal and bounded by an overall and
+ * a per-step timeout. Steps get an abort signal through the context for
+ * their network calls; steps that cannot be interrupted (image processing)
+ * are abandoned, and the run fails with PIPELINE_CANCELLED or
+ * PIPELINE_TIMEOUT whatever the step itself throws once aborted.
+ *
+ * With an animation spec, animated inputs are split into frames: every
+ * step but the last runs on each frame in turn (reported as one step), and
+ * the frames are reassembled with their delays before the last step, the
+ * output encoding, runs on the whole animation. Per-frame artifacts (such
+ * as alpha masks) are not kept.
  */
 export class ImageProcessingPipeline {
-  constructor(private readonly steps: IImageProcessingStep[]) {
+  /**
+   * @param steps - Steps to run, in order; the last one encodes the output
+   * @param animation - Process animated inputs frame by frame; without it
+   *                    steps see the first frame only
+   */
+  constructor(
+    private readonly steps: IImageProcessingStep[],
+    private readonly animation?: PipelineAnimationSpec
+  ) {
     if (steps.length === 0) {
       throw new Error('Pipeline must have at least one processing step');
     }
@@ -23,17 +91,231 @@ export class ImageProcessingPipeline {
    * Execute all pipeline steps sequentially on the input image.
    * 
    * @param image - Input image buffer to process
-   * @returns Processed image buffer after all steps complete
-   * @throws {PipelineStepError} If any step fails, with step context
+   * @param onEvent - Optional listener for live progress events (step
+   *                  start/completion/failure and retries)
+   * @param options - Cancellation signal and timeouts
+   * @returns Processed image buffer, execution report, step metadata and artifacts
+   * @throws {PipelineStepError} If any step fails, with step context;
+   *         PIPELINE_CANCELLED or PIPELINE_TIMEOUT if the run was aborted
+   */
+  async execute(
+    image: Buffer,
+    onEvent?: PipelineEventListener,
+    options: PipelineExecuteOptions = {}
+  ): Promise<PipelineResult> {
+    const run = new AbortController();
+    const cancel = () =>
+      run.abort(
+        new PipelineStepError(RUN_ERROR_SOURCE, 'PIPELINE_CANCELLED', 499, 'Processing was cancelled')
+      );
+    if (options.signal?.aborted) {
+      cancel();
+    }
+    options.signal?.addEventListener('abort', cancel);
+    const timer =
+      options.timeoutMs !== undefined
+        ? setTimeout(
+            () =>
+              run.abort(
+                new PipelineStepError(
+                  RUN_ERROR_SOURCE,
+                  'PIPELINE_TIMEOUT',
+                  504,
+                  `Processing timed out after ${options.timeoutMs} ms`
+                )
+              ),
+            options.timeoutMs
+          )
+        : undefined;
+
+    try {
+      return await this.run(image, onEvent, run.signal, options.stepTimeoutMs);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  private async run(
+    image: Buffer,
+    onEvent: PipelineEventListener | undefined,
+    signal: AbortSignal,
+    stepTimeoutMs: number | undefined
+  ): Promise<PipelineResult> {
+    const context = new PipelineContext(image, onEvent);
+    context.emit({ type: 'pipeline.started', steps: this.stepNames });
+
+    const animation = this.animation
+      ? await this.runUnlessAborted(this.readFrames(image), signal)
+      : null;
+    if (animation) {
+      context.setMetadata('animationFrames', {
+        processed: animation.frames.length,
+        source: animation.sourceFrameCount,
+      });
+    }
+
+    for (const [index, step] of this.steps.entries()) {
+      const isFrameStep = animation !== null && index < this.steps.length - 1;
+      if (animation && !isFrameStep) {
+        context.image = await this.runUnlessAborted(this.writeFrames(animation), signal);
+      }
+
+      await context.beginStep(step.name);
+
+      try {
+        const timeoutMs = step.timeoutMs ?? stepTimeoutMs;
+        const output = animation && isFrameStep
+          ? await this.processFrames(step, context, animation, signal, timeoutMs)
+          : await this.runStep(step, context, signal, timeoutMs);
+        await context.completeStep(output);
+      } catch (error) {
+        // Steps interrupted by an abort fail with the abort's reason
+        const failure = signal.aborted ? signal.reason : error;
+        context.failStep(failure as { code?: string; message: string });
+        throw failure;
+      }
+    }
+
+    const report = context.toReport();
+    context.emit({ type: 'pipeline.completed', durationMs: report.durationMs });
+
+    return {
+      image: context.image,
+      report,
+      metadata: context.getAllMetadata(),
+      artifacts: animation ? {} : context.getAllArtifacts(),
+    };
+  }
+
+  /**
+   * Run a step on every frame, replacing the frames with its outputs
+   *
+   * @returns The first processed frame, which stands for the step's output
+   *          in the execution report
+   */
+  private async processFrames(
+    step: IImageProcessingStep,
+    context: PipelineContext,
+    animation: AnimationFrames,
+    signal: AbortSignal,
+    timeoutMs: number | undefined
+  ): Promise<Buffer> {
+    for (const [i, frame] of animation.frames.entries()) {
+      context.image = frame;
+      animation.frames[i] = await this.runStep(step, context, signal, timeoutMs);
+    }
+
+    return animation.frames[0];
+  }
+
+  /**
+   * Call a step with a signal that aborts when the run does or the call
+   * exceeds its timeout. The call is abandoned (not awaited) once aborted.
+   */
+  private async runStep(
+    step: IImageProcessingStep,
+    context: PipelineContext,
+    runSignal: AbortSignal,
+    timeoutMs: number | undefined
+  ): Promise<Buffer> {
+    const call = new AbortController();
+    const abort = () => call.abort(runSignal.reason);
+    if (runSignal.aborted) {
+      abort();
+    }
+    runSignal.addEventListener('abort', abort);
+    const timer =
+      timeoutMs !== undefined
+        ? setTimeout(
+            () =>
+              call.abort(
+                new PipelineStepError(
+                  step.name,
+                  'PIPELINE_TIMEOUT',
+                  504,
+                  `Step "${step.name}" timed out after ${timeoutMs} ms`
+                )
+              ),
+            timeoutMs
+          )
+        : undefined;
+
+    context.signal = call.signal;
+    try {
+      return await this.runUnlessAborted(step.process(context), call.signal);
+    } catch (error) {
+      throw call.signal.aborted ? call.signal.reason : error;
+    } finally {
+      clearTimeout(timer);
+      runSignal.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Settle with the operation, or reject with the signal's reason as soon as
+   * it is aborted
+   */
+  private runUnlessAborted<T>(operation: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      if (signal.aborted) {
+        onAbort();
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+      operation
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Split an animated input into frames
+   *
+   * @returns Frames, or null for still images
    */
-  async execute(image: Buffer): Promise<Buffer> {
-    let result = image;
-    
-    for (const step of this.steps) {
-      result = await step.process(result);
-    }
-    
-    return result;
+  private async readFrames(image: Buffer): Promise<AnimationFrames | null> {
+    try {
+      return await splitFrames(image, this.animation?.maxFrames ?? 1, MAX_ANIMATION_PIXELS);
+    } catch (error) {
+      if (error instanceof AnimationTooLargeError) {
+        throw this.toTooLargeError(error);
+      }
+      throw new PipelineStepError(
+        ANIMATION_ERROR_SOURCE,
+        'ANIMATION_DECODE_FAILED',
+        400,
+        'Failed to read the frames of the animated image',
+        { cause: error as Error }
+      );
+    }
+  }
+
+  private async writeFrames(animation: AnimationFrames): Promise<Buffer> {
+    try {
+      return await assembleFrames(animation, MAX_ANIMATION_PIXELS);
+    } catch (error) {
+      if (error instanceof AnimationTooLargeError) {
+        throw this.toTooLargeError(error);
+      }
+      throw new PipelineStepError(
+        ANIMATION_ERROR_SOURCE,
+        'ANIMATION_ENCODE_FAILED',
+        500,
+        'Failed to reassemble the processed frames',
+        { cause: error as Error }
+      );
+    }
+  }
+
+  private toTooLargeError(error: AnimationTooLargeError): PipelineStepError {
+    return new PipelineStepError(
+      ANIMATION_ERROR_SOURCE,
+      'ANIMATION_TOO_LARGE',
+      413,
+      `The animation is too large to process frame by frame (${error.pixels} pixels across its frames, at most ${error.maxPixels}); lower animation.maxFrames or use a smaller image`,
+      { cause: error }
+    );
   }
 
   /**
@@ -1,20 +1,31 @@
+import type { PipelineContext } from './pipeline-context';
+
 /**
  * Interface for all image processing pipeline steps.
  * 
- * Each step must implement a uniform Buffer -> Buffer transformation.
- * On success, returns the processed image buffer.
+ * Each step transforms `context.image` into a new image buffer.
+ * On success, returns the processed image buffer; the pipeline makes it
+ * the input of the next step. Steps may record metadata, retries and
+ * warnings on the context for the execution report.
  * On failure, throws a PipelineStepError with detailed context.
  */
 export interface IImageProcessingStep {
   /** Human-readable step name for logging and error reporting */
   readonly name: string;
+
+  /**
+   * Longest a single call of `process` may take, in milliseconds (for
+   * animations, per frame). Overrides the pipeline's default step timeout.
+   */
+  readonly timeoutMs?: number;
   
   /**
-   * Process an image buffer and return the transformed result.
+   * Process the context's current image and return the transformed result.
    * 
-   * @param image - Input image as Buffer
+   * @param context - Pipeline context holding the current image, run
+   *                  metadata and the abort signal to pass to network calls
    * @returns Processed image as Buffer
    * @throws {PipelineStepError} On processing failure with step context
    */
-  process(image: Buffer): Promise<Buffer>;
+  process(context: PipelineContext): Promise<Buffer>;
 }
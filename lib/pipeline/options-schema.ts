@@ -0,0 +1,210 @@
+/**
+ * Minimal declarative schema for pipeline step options.
+ *
+ * Step options arrive as untrusted JSON, so every registered step describes
+ * its options with a schema. The registry validates raw options against it
+ * and merges them over the step's defaults before the step is constructed.
+ */
+
+interface BaseFieldSchema {
+  /** Allow the field to be omitted when it has no default */
+  optional?: boolean;
+}
+
+export interface BooleanFieldSchema extends BaseFieldSchema {
+  type: 'boolean';
+}
+
+export interface NumberFieldSchema extends BaseFieldSchema {
+  type: 'number';
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export interface StringFieldSchema extends BaseFieldSchema {
+  type: 'string';
+  pattern?: RegExp;
+  maxLength?: number;
+}
+
+export interface EnumFieldSchema extends BaseFieldSchema {
+  type: 'enum';
+  values: readonly (string | number)[];
+}
+
+export interface ArrayFieldSchema extends BaseFieldSchema {
+  type: 'array';
+  items: FieldSchema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectFieldSchema extends BaseFieldSchema {
+  type: 'object';
+  fields: Record<string, FieldSchema>;
+}
+
+/**
+ * Object whose shape depends on a string discriminator field
+ * (e.g. `{ type: 'color', ... }` vs `{ type: 'image', ... }`)
+ */
+export interface UnionFieldSchema extends BaseFieldSchema {
+  type: 'union';
+  /** Name of the field that selects the variant */
+  discriminator: string;
+  /** Fields of each variant (excluding the discriminator), keyed by its value */
+  variants: Record<string, Record<string, FieldSchema>>;
+}
+
+export type FieldSchema =
+  | BooleanFieldSchema
+  | NumberFieldSchema
+  | StringFieldSchema
+  | EnumFieldSchema
+  | ArrayFieldSchema
+  | ObjectFieldSchema
+  | UnionFieldSchema;
+
+/**
+ * Schema for a step's options object: one field schema per option key
+ */
+export type OptionsSchema<TOptions> = {
+  [K in keyof TOptions]-?: FieldSchema;
+};
+
+/**
+ * Validate raw options against a schema and merge them over defaults.
+ *
+ * @param schema - Field schemas keyed by option name
+ * @param defaults - Default option values
+ * @param raw - Untrusted options object from a pipeline spec
+ * @returns Fully populated options, or the list of validation problems
+ */
+export function validateOptions<TOptions extends object>(
+  schema: OptionsSchema<TOptions>,
+  defaults: TOptions,
+  raw: Record<string, unknown>
+): { valid: true; options: TOptions } | { valid: false; errors: string[] } {
+  const fields = schema as Record<string, FieldSchema>;
+  const merged: Record<string, unknown> = { ...(defaults as Record<string, unknown>) };
+  const errors: string[] = [];
+
+  for (const key of Object.keys(raw)) {
+    if (!Object.hasOwn(fields, key)) {
+      errors.push(`unknown option "${key}"`);
+    }
+  }
+
+  for (const [key, field] of Object.entries(fields)) {
+    if (raw[key] !== undefined) {
+      errors.push(...validateField(field, raw[key], key));
+      merged[key] = raw[key];
+    } else if (merged[key] === undefined && !field.optional) {
+      errors.push(`"${key}" is required`);
+    }
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, options: merged as TOptions };
+}
+
+function validateField(field: FieldSchema, value: unknown, path: string): string[] {
+  switch (field.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`"${path}" must be a boolean`];
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [`"${path}" must be a number`];
+      }
+      if (field.integer && !Number.isInteger(value)) {
+        return [`"${path}" must be an integer`];
+      }
+      if (field.min !== undefined && value < field.min) {
+        return [`"${path}" must be at least ${field.min}`];
+      }
+      if (field.max !== undefined && value > field.max) {
+        return [`"${path}" must be at most ${field.max}`];
+      }
+      return [];
+
+    case 'string':
+      if (typeof value !== 'string') {
+        return [`"${path}" must be a string`];
+      }
+      if (field.maxLength !== undefined && value.length > field.maxLength) {
+        return [`"${path}" must be at most ${field.maxLength} characters`];
+      }
+      if (field.pattern && !field.pattern.test(value)) {
+        return [`"${path}" has an invalid format`];
+      }
+      return [];
+
+    case 'enum':
+      return field.values.includes(value as string | number)
+        ? []
+        : [`"${path}" must be one of: ${field.values.join(', ')}`];
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        return [`"${path}" must be an array`];
+      }
+      if (field.minItems !== undefined && value.length < field.minItems) {
+        return [`"${path}" must have at least ${field.minItems} items`];
+      }
+      if (field.maxItems !== undefined && value.length > field.maxItems) {
+        return [`"${path}" must have at most ${field.maxItems} items`];
+      }
+      return value.flatMap((item, index) =>
+        validateField(field.items, item, `${path}[${index}]`)
+      );
+
+    case 'object':
+      return validateObject(field.fields, value, path);
+
+    case 'union': {
+      const tag = (value as Record<string, unknown> | null)?.[field.discriminator];
+      const variant =
+        typeof tag === 'string' && Object.hasOwn(field.variants, tag)
+          ? field.variants[tag]
+          : undefined;
+      if (!variant) {
+        return [
+          `"${path}.${field.discriminator}" must be one of: ${Object.keys(field.variants).join(', ')}`,
+        ];
+      }
+      return validateObject(
+        { ...variant, [field.discriminator]: { type: 'string' } },
+        value,
+        path
+      );
+    }
+  }
+}
+
+function validateObject(
+  fields: Record<string, FieldSchema>,
+  value: unknown,
+  path: string
+): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [`"${path}" must be an object`];
+  }
+
+  const record = value as Record<string, unknown>;
+  const errors = Object.keys(record)
+    .filter((key) => !Object.hasOwn(fields, key))
+    .map((key) => `unknown option "${path}.${key}"`);
+
+  for (const [key, child] of Object.entries(fields)) {
+    if (record[key] !== undefined) {
+      errors.push(...validateField(child, record[key], `${path}.${key}`));
+    } else if (!child.optional) {
+      errors.push(`"${path}.${key}" is required`);
+    }
+  }
+
+  return errors;
+}
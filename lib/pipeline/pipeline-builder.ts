@@ -0,0 +1,108 @@
+import { ImageProcessingPipeline } from './image-processing-pipeline';
+import { OutputEncodingStep } from './steps/output-encoding.step';
+import { PresetFramingStep } from './steps/preset-framing.step';
+import { stepRegistry } from './step-registry';
+import { PipelineStepError } from './pipeline-step-error';
+import type { StepServices } from './step-definition';
+import type { IImageProcessingStep } from './image-processing-step';
+import {
+  DEFAULT_OUTPUT_FORMAT,
+  OPAQUE_OUTPUT_FORMATS,
+} from '@/lib/constants/image-formats';
+import {
+  OUTPUT_PRESETS,
+  type OutputPresetId,
+} from '@/lib/constants/output-presets';
+import type { PipelineSpec } from '@/lib/types/pipeline';
+
+/**
+ * Optional changes to how a spec is turned into steps
+ */
+export interface BuildPipelineOptions {
+  /**
+   * Stage used in place of the spec's background removal step (see
+   * StepDefinition.removesBackground), e.g. a MaskCompositingStep that
+   * re-applies a stored mask instead of calling a provider again
+   */
+  backgroundRemoval?: IImageProcessingStep;
+}
+
+/**
+ * Build an executable pipeline from a validated spec.
+ *
+ * Every step's options are validated before any step is constructed, then
+ * steps are created through the step registry in spec order. An output
+ * preset's framing stage comes next, and the output encoding stage is
+ * appended last (bounded by the preset's file size limit, if any). With an
+ * animation spec, the steps before the encoding run on every frame.
+ *
+ * Formats without alpha (JPEG) are only accepted when the spec says what
+ * replaces transparency: an explicit matte color, a step that produces
+ * opaque output (e.g. background-replacement), or a preset.
+ *
+ * @param spec - Structurally valid pipeline spec (see parsePipelineSpec)
+ * @param services - Request-scoped services for steps that need user data
+ * @param options - Optional step replacements
+ * @returns Pipeline ready to execute
+ * @throws {PipelineStepError} If a step is unknown, has invalid options, or
+ *                             the output format needs an opaque result
+ */
+export function buildPipeline(
+  spec: PipelineSpec,
+  services: StepServices,
+  options: BuildPipelineOptions = {}
+): ImageProcessingPipeline {
+  const resolved = spec.steps.map((stepSpec) => stepRegistry.resolve(stepSpec));
+  const output = spec.output ?? { format: DEFAULT_OUTPUT_FORMAT };
+  const { format, preset: presetId } = output;
+
+  // Preset framing flattens onto the preset's background color
+  const isOpaque =
+    output.matte !== undefined ||
+    presetId !== undefined ||
+    resolved.some(
+      (stepSpec) => stepRegistry.getDefinition(stepSpec.name).producesOpaqueOutput
+    );
+  if (OPAQUE_OUTPUT_FORMATS.includes(format) && !isOpaque) {
+    throw new PipelineStepError(
+      'pipeline',
+      'PIPELINE_INVALID_SPEC',
+      400,
+      `${format.toUpperCase()} output has no transparency; set a matte color, or add a background-replacement step or an output preset`
+    );
+  }
+
+  const steps = resolved.map((stepSpec) =>
+    options.backgroundRemoval &&
+    stepRegistry.getDefinition(stepSpec.name).removesBackground
+      ? options.backgroundRemoval
+      : stepRegistry.create(stepSpec, services)
+  );
+  if (presetId) {
+    steps.push(new PresetFramingStep(presetId));
+  }
+  steps.push(
+    new OutputEncodingStep(
+      output,
+      presetId ? OUTPUT_PRESETS[presetId].maxFileSizeBytes : undefined
+    )
+  );
+
+  return new ImageProcessingPipeline(steps, spec.animation);
+}
+
+/**
+ * Build a pipeline that applies an output preset to an already processed
+ * image, e.g. when downloading an existing conversion for a marketplace.
+ *
+ * @param presetId - Output preset to frame and encode for
+ * @returns Pipeline of the preset's framing and encoding stages
+ */
+export function buildPresetPipeline(presetId: OutputPresetId): ImageProcessingPipeline {
+  const preset = OUTPUT_PRESETS[presetId];
+
+  return new ImageProcessingPipeline([
+    new PresetFramingStep(presetId),
+    new OutputEncodingStep({ format: preset.format }, preset.maxFileSizeBytes),
+  ]);
+}
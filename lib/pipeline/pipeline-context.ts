@@ -0,0 +1,219 @@
+import sharp from 'sharp';
+import type {
+  ImageInfo,
+  PipelineEvent,
+  PipelineEventListener,
+  PipelineExecutionReport,
+  StepExecutionReport,
+} from '@/lib/types/pipeline';
+
+/**
+ * State threaded through every step of a pipeline run.
+ *
+ * Holds the current image, the untouched input, a metadata bag that
+ * steps can use to share facts with later steps, and named artifacts
+ * (intermediate images such as the alpha mask) kept alongside the result. The pipeline records
+ * timings, retries, warnings and image info per step, and turns them into
+ * a PipelineExecutionReport when the run ends. Step boundaries and retries
+ * are also reported live to an optional event listener.
+ */
+export class PipelineContext {
+  /** Image passed to the current step; replaced with each step's output */
+  image: Buffer;
+
+  /**
+   * Aborted when the run is cancelled or the current step or the whole run
+   * times out. Steps pass it to network calls and stop waiting (e.g. for
+   * retries) once it is aborted; the pipeline sets it for each step call.
+   */
+  signal: AbortSignal = new AbortController().signal;
+
+  private readonly metadata = new Map<string, unknown>();
+  private readonly artifacts = new Map<string, Buffer>();
+  private readonly stepReports: StepExecutionReport[] = [];
+  private currentStep: StepExecutionReport | null = null;
+  private readonly startedAt = new Date();
+
+  /**
+   * @param originalImage - Pipeline input, kept unchanged for steps that
+   *                        need to look back at the source image
+   * @param listener - Optional receiver for live progress events
+   */
+  constructor(
+    readonly originalImage: Buffer,
+    private readonly listener?: PipelineEventListener
+  ) {
+    this.image = originalImage;
+  }
+
+  /**
+   * Store a metadata value for later steps and in the current step's report
+   */
+  setMetadata(key: string, value: unknown): void {
+    this.metadata.set(key, value);
+    if (this.currentStep) {
+      this.currentStep.metadata[key] = value;
+    }
+  }
+
+  /**
+   * Read a metadata value stored by an earlier step
+   */
+  getMetadata<T = unknown>(key: string): T | undefined {
+    return this.metadata.get(key) as T | undefined;
+  }
+
+  /**
+   * Snapshot of all metadata stored during the run
+   */
+  getAllMetadata(): Record<string, unknown> {
+    return Object.fromEntries(this.metadata);
+  }
+
+  /**
+   * Keep an intermediate image produced by a step (e.g. the alpha mask) so
+   * the caller can store it next to the final image. A later step may
+   * replace an artifact by storing it under the same name.
+   */
+  setArtifact(name: string, image: Buffer): void {
+    this.artifacts.set(name, image);
+  }
+
+  /**
+   * Snapshot of all artifacts stored during the run
+   */
+  getAllArtifacts(): Record<string, Buffer> {
+    return Object.fromEntries(this.artifacts);
+  }
+
+  /**
+   * Record that the current step is retrying an operation
+   *
+   * @param reason - Optional short description (e.g. provider and error code)
+   */
+  recordRetry(reason?: string): void {
+    if (this.currentStep) {
+      this.currentStep.retries++;
+      this.emit({
+        type: 'step.retry',
+        step: this.currentStep.name,
+        index: this.currentIndex,
+        attempt: this.currentStep.retries,
+        reason,
+      });
+    }
+  }
+
+  /**
+   * Record a non-fatal issue worth surfacing with the result
+   */
+  addWarning(message: string): void {
+    this.currentStep?.warnings.push(message);
+  }
+
+  /**
+   * Report a progress event to the listener. Listener errors are logged
+   * and never interrupt the run.
+   */
+  emit(event: PipelineEvent): void {
+    try {
+      this.listener?.(event);
+    } catch (error) {
+      console.error('Pipeline event listener failed:', error);
+    }
+  }
+
+  /**
+   * Mark the start of a step. Called by the pipeline.
+   */
+  async beginStep(name: string): Promise<void> {
+    const input = await describeImage(this.image);
+
+    this.currentStep = {
+      name,
+      status: 'succeeded',
+      startedAt: new Date().toISOString(),
+      durationMs: 0,
+      retries: 0,
+      input,
+      output: null,
+      metadata: {},
+      warnings: [],
+    };
+    this.stepReports.push(this.currentStep);
+    this.emit({ type: 'step.started', step: name, index: this.currentIndex });
+  }
+
+  /**
+   * Mark the end of the current step with its output image. Called by the pipeline.
+   */
+  async completeStep(output: Buffer): Promise<void> {
+    const index = this.currentIndex;
+    const step = this.finishStep();
+    this.image = output;
+    step.output = await describeImage(output);
+    this.emit({
+      type: 'step.completed',
+      step: step.name,
+      index,
+      durationMs: step.durationMs,
+    });
+  }
+
+  /**
+   * Mark the current step as failed. Called by the pipeline.
+   */
+  failStep(error: { code?: string; message: string }): void {
+    const index = this.currentIndex;
+    const step = this.finishStep();
+    step.status = 'failed';
+    step.error = { code: error.code ?? 'UNKNOWN_ERROR', message: error.message };
+    this.emit({ type: 'step.failed', step: step.name, index, ...step.error });
+  }
+
+  /**
+   * Build the execution report for everything recorded so far
+   */
+  toReport(): PipelineExecutionReport {
+    return {
+      startedAt: this.startedAt.toISOString(),
+      durationMs: Date.now() - this.startedAt.getTime(),
+      steps: this.stepReports,
+      warnings: this.stepReports.flatMap((step) => step.warnings),
+    };
+  }
+
+  /** Position of the step in progress (the last one begun) */
+  private get currentIndex(): number {
+    return this.stepReports.length - 1;
+  }
+
+  private finishStep(): StepExecutionReport {
+    const step = this.currentStep;
+    if (!step) {
+      throw new Error('No pipeline step is in progress');
+    }
+
+    step.durationMs = Date.now() - new Date(step.startedAt).getTime();
+    this.currentStep = null;
+    return step;
+  }
+}
+
+/**
+ * Read dimensions and format from an encoded image; null if unreadable
+ */
+async function describeImage(image: Buffer): Promise<ImageInfo | null> {
+  try {
+    const { width, height, format, hasAlpha } = await sharp(image).metadata();
+    return {
+      width: width ?? 0,
+      height: height ?? 0,
+      format: format ?? 'unknown',
+      size: image.length,
+      hasAlpha: hasAlpha ?? false,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,250 @@
+import { PipelineStepError } from './pipeline-step-error';
+import { HEX_COLOR_PATTERN } from './utils/color';
+import {
+  OUTPUT_FORMATS,
+  DEFAULT_OUTPUT_FORMAT,
+  ANIMATED_OUTPUT_FORMATS,
+  DEFAULT_ANIMATION_MAX_FRAMES,
+  MAX_ANIMATION_FRAMES,
+  LOSSLESS_CAPABLE_FORMATS,
+  OPAQUE_OUTPUT_FORMATS,
+  QUALITY_OUTPUT_FORMATS,
+  METADATA_POLICIES,
+  type MetadataPolicy,
+  type OutputFormat,
+} from '@/lib/constants/image-formats';
+import {
+  OUTPUT_PRESETS,
+  isOutputPresetId,
+  type OutputPresetId,
+} from '@/lib/constants/output-presets';
+import type {
+  PipelineAnimationSpec,
+  PipelineOutputSpec,
+  PipelineSpec,
+  PipelineStepSpec,
+} from '@/lib/types/pipeline';
+
+/** Step name reported on errors that concern the spec as a whole */
+const SPEC_ERROR_SOURCE = 'pipeline';
+
+/** Upper bound on steps per spec, to keep request-time processing bounded */
+export const MAX_PIPELINE_STEPS = 16;
+
+/**
+ * Pipeline used when an upload does not carry a spec.
+ * Matches the original hard-wired behavior: normalize, remove background, flip.
+ */
+export const DEFAULT_PIPELINE_SPEC: PipelineSpec = {
+  steps: [
+    { name: 'format-normalization' },
+    { name: 'background-removal' },
+    { name: 'horizontal-flip' },
+  ],
+  output: { format: DEFAULT_OUTPUT_FORMAT },
+};
+
+/**
+ * Parse a pipeline spec from a JSON string (e.g. the `pipeline` form field).
+ *
+ * @param json - Raw JSON text
+ * @returns Structurally valid pipeline spec
+ * @throws {PipelineStepError} If the JSON is malformed or the spec is invalid
+ */
+export function parsePipelineSpecJson(json: string): PipelineSpec {
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw invalidSpec('Pipeline spec is not valid JSON', error);
+  }
+
+  return parsePipelineSpec(raw);
+}
+
+/**
+ * Validate the structure of an untrusted pipeline spec.
+ *
+ * Only the shape is checked here (step list, names, options objects, output
+ * format, encoder settings, preset and animation). Step names and options are validated by the step registry when
+ * the spec is resolved into step instances.
+ *
+ * @param raw - Untrusted value, typically parsed from request JSON
+ * @returns Normalized pipeline spec with output format filled in
+ *          (from the preset when only a preset is given)
+ * @throws {PipelineStepError} If the spec is structurally invalid
+ */
+export function parsePipelineSpec(raw: unknown): PipelineSpec {
+  if (!isPlainObject(raw)) {
+    throw invalidSpec('Pipeline spec must be an object');
+  }
+
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+    throw invalidSpec('Pipeline spec must contain at least one step');
+  }
+
+  if (raw.steps.length > MAX_PIPELINE_STEPS) {
+    throw invalidSpec(`Pipeline spec cannot contain more than ${MAX_PIPELINE_STEPS} steps`);
+  }
+
+  const steps = raw.steps.map((step, index) => parseStepSpec(step, index));
+  const output = parseOutputSpec(raw.output);
+
+  if (raw.animation === undefined) {
+    return { steps, output };
+  }
+
+  return {
+    steps,
+    output,
+    animation: parseAnimationSpec(raw.animation, output),
+  };
+}
+
+function parseStepSpec(raw: unknown, index: number): PipelineStepSpec {
+  if (!isPlainObject(raw) || typeof raw.name !== 'string' || !raw.name) {
+    throw invalidSpec(`Step ${index + 1} must be an object with a "name"`);
+  }
+
+  if (raw.options !== undefined && !isPlainObject(raw.options)) {
+    throw invalidSpec(`Options for step "${raw.name}" must be an object`);
+  }
+
+  return raw.options === undefined
+    ? { name: raw.name }
+    : { name: raw.name, options: raw.options };
+}
+
+function parseOutputSpec(raw: unknown): PipelineOutputSpec {
+  if (raw === undefined) {
+    return { format: DEFAULT_OUTPUT_FORMAT };
+  }
+
+  if (!isPlainObject(raw)) {
+    throw invalidSpec('Pipeline output must be an object');
+  }
+
+  if (raw.preset !== undefined && !isOutputPresetId(raw.preset)) {
+    throw invalidSpec(
+      `Unknown output preset. Available presets: ${Object.keys(OUTPUT_PRESETS).join(', ')}`
+    );
+  }
+
+  const preset = raw.preset;
+  const output: PipelineOutputSpec = {
+    format: parseOutputFormat(raw.format, preset),
+  };
+
+  if (preset) {
+    output.preset = preset;
+  }
+
+  if (raw.quality !== undefined) {
+    if (
+      typeof raw.quality !== 'number' ||
+      !Number.isInteger(raw.quality) ||
+      raw.quality < 1 ||
+      raw.quality > 100
+    ) {
+      throw invalidSpec('Output quality must be an integer from 1 to 100');
+    }
+    if (!QUALITY_OUTPUT_FORMATS.includes(output.format)) {
+      throw invalidSpec(`Output quality is not supported for ${output.format.toUpperCase()}`);
+    }
+    output.quality = raw.quality;
+  }
+
+  if (raw.lossless !== undefined) {
+    if (typeof raw.lossless !== 'boolean') {
+      throw invalidSpec('Output lossless must be a boolean');
+    }
+    if (!LOSSLESS_CAPABLE_FORMATS.includes(output.format)) {
+      throw invalidSpec(`Lossless output is not supported for ${output.format.toUpperCase()}`);
+    }
+    output.lossless = raw.lossless;
+  }
+
+  if (raw.matte !== undefined) {
+    if (typeof raw.matte !== 'string' || !HEX_COLOR_PATTERN.test(raw.matte)) {
+      throw invalidSpec('Output matte must be a hex color');
+    }
+    if (!OPAQUE_OUTPUT_FORMATS.includes(output.format)) {
+      throw invalidSpec(`A matte color only applies to ${OPAQUE_OUTPUT_FORMATS.join(', ')} output`);
+    }
+    output.matte = raw.matte;
+  }
+
+  if (raw.metadata !== undefined) {
+    if (typeof raw.metadata !== 'string' || !Object.hasOwn(METADATA_POLICIES, raw.metadata)) {
+      throw invalidSpec(
+        `Unknown metadata policy. Allowed policies: ${Object.keys(METADATA_POLICIES).join(', ')}`
+      );
+    }
+    output.metadata = raw.metadata as MetadataPolicy;
+  }
+
+  return output;
+}
+
+function parseAnimationSpec(
+  raw: unknown,
+  output: PipelineOutputSpec
+): PipelineAnimationSpec {
+  if (!isPlainObject(raw)) {
+    throw invalidSpec('Pipeline animation must be an object');
+  }
+
+  if (!ANIMATED_OUTPUT_FORMATS.includes(output.format)) {
+    throw invalidSpec(
+      `Animated output requires one of these formats: ${ANIMATED_OUTPUT_FORMATS.join(', ')}`
+    );
+  }
+
+  if (output.preset) {
+    throw invalidSpec('Animated output cannot use an output preset');
+  }
+
+  if (raw.maxFrames === undefined) {
+    return { maxFrames: DEFAULT_ANIMATION_MAX_FRAMES };
+  }
+
+  if (
+    typeof raw.maxFrames !== 'number' ||
+    !Number.isInteger(raw.maxFrames) ||
+    raw.maxFrames < 1 ||
+    raw.maxFrames > MAX_ANIMATION_FRAMES
+  ) {
+    throw invalidSpec(`Animation maxFrames must be an integer from 1 to ${MAX_ANIMATION_FRAMES}`);
+  }
+
+  return { maxFrames: raw.maxFrames };
+}
+
+function parseOutputFormat(raw: unknown, preset: OutputPresetId | undefined): OutputFormat {
+  if (raw === undefined) {
+    return preset ? OUTPUT_PRESETS[preset].format : DEFAULT_OUTPUT_FORMAT;
+  }
+
+  if (typeof raw !== 'string' || !Object.hasOwn(OUTPUT_FORMATS, raw)) {
+    throw invalidSpec(
+      `Unsupported output format. Allowed formats: ${Object.keys(OUTPUT_FORMATS).join(', ')}`
+    );
+  }
+
+  return raw as OutputFormat;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalidSpec(message: string, cause?: unknown): PipelineStepError {
+  return new PipelineStepError(
+    SPEC_ERROR_SOURCE,
+    'PIPELINE_INVALID_SPEC',
+    400,
+    message,
+    cause === undefined ? undefined : { cause }
+  );
+}
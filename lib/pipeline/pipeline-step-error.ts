@@ -8,17 +8,22 @@
  * - statusCode: HTTP status code hint for API responses
  * - message: human-readable error description
  * - cause: optional original error for debugging
+ * - retryAfterMs: optional wait the failing service asked for before the
+ *   next attempt (e.g. from a rate limit's Retry-After)
  */
 export class PipelineStepError extends Error {
+  public readonly retryAfterMs?: number;
+
   constructor(
     public readonly stepName: string,
     public readonly code: string,
     public readonly statusCode: number,
     message: string,
-    options?: ErrorOptions
+    options?: ErrorOptions & { retryAfterMs?: number }
   ) {
     super(message, options);
     this.name = 'PipelineStepError';
+    this.retryAfterMs = options?.retryAfterMs;
     
     // Maintains proper stack trace for where error was thrown (V8 only)
     if (Error.captureStackTrace) {
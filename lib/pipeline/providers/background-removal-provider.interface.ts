@@ -0,0 +1,53 @@
+import type { BackgroundRemovalDetails } from '@/lib/types/pipeline';
+
+/**
+ * Step name reported on errors raised by background removal providers,
+ * so failures surface as coming from the background-removal step.
+ */
+export const BG_REMOVAL_STEP_NAME = 'background-removal';
+
+/** Pipeline metadata key under which removal steps record the provider that produced the cutout */
+export const BG_REMOVAL_PROVIDER_METADATA_KEY = 'backgroundRemovalProvider';
+
+/** Pipeline metadata key under which removal steps record what the provider reported (see BackgroundRemovalDetails) */
+export const BG_REMOVAL_DETAILS_METADATA_KEY = 'backgroundRemovalDetails';
+
+/**
+ * Cutout returned by a provider
+ */
+export interface BackgroundRemovalResult {
+  /** Cutout with transparent background as PNG */
+  image: Buffer;
+  /** What the provider reported about the call, if anything */
+  details?: BackgroundRemovalDetails;
+}
+
+/**
+ * Background removal service behind BackgroundRemovalStep.
+ *
+ * Implementations make a single attempt and map every failure to a
+ * PipelineStepError with a BG_REMOVAL_* code. Retries and failover between
+ * providers are handled by the step.
+ */
+export interface IBackgroundRemovalProvider {
+  /** Provider name used in configuration and recorded on conversions */
+  readonly name: string;
+
+  /**
+   * Whether the cutout's alpha can be applied to the input as a mask: the
+   * subject keeps its position and framing and no pixels (e.g. shadows)
+   * are added. Masks are only kept for such providers.
+   */
+  readonly cutoutMatchesInput: boolean;
+
+  /**
+   * Remove the background from an image.
+   *
+   * @param image - Input image (PNG after format normalization)
+   * @param signal - Aborts the request when the run is cancelled or times out
+   * @returns Cutout and the provider's details
+   * @throws {PipelineStepError} On any failure, with a BG_REMOVAL_* code;
+   *         rate-limit errors carry the provider's Retry-After when known
+   */
+  removeBackground(image: Buffer, signal?: AbortSignal): Promise<BackgroundRemovalResult>;
+}
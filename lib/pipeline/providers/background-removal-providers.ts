@@ -0,0 +1,76 @@
+import { PipelineStepError } from '../pipeline-step-error';
+import {
+  BG_REMOVAL_STEP_NAME,
+  type IBackgroundRemovalProvider,
+} from './background-removal-provider.interface';
+import { RemoveBgProvider, type RemoveBgOptions } from './remove-bg.provider';
+import { RembgHttpProvider } from './rembg-http.provider';
+import { LocalProvider } from './local.provider';
+import { DEFAULT_COLOR_KEY_OPTIONS } from '../utils/color-key';
+
+/** Names of all background removal providers */
+export const BG_REMOVAL_PROVIDER_NAMES = ['remove-bg', 'rembg', 'local'] as const;
+
+export type BackgroundRemovalProviderName = (typeof BG_REMOVAL_PROVIDER_NAMES)[number];
+
+/**
+ * Provider-specific options from a background-removal step spec
+ */
+export interface ProviderOptions {
+  /** Remove.bg API features (ignored by other providers) */
+  removeBg?: RemoveBgOptions;
+}
+
+/**
+ * Create a provider by name, configured from environment variables.
+ *
+ * @param name - Provider name
+ * @param options - Provider-specific options
+ * @returns Configured provider
+ * @throws {PipelineStepError} If the provider's environment is not configured
+ */
+export function createBackgroundRemovalProvider(
+  name: BackgroundRemovalProviderName,
+  options: ProviderOptions = {}
+): IBackgroundRemovalProvider {
+  switch (name) {
+    case 'remove-bg':
+      return new RemoveBgProvider({
+        apiKey: process.env.REMOVEBG_API_KEY || '',
+        options: options.removeBg,
+      });
+    case 'rembg':
+      return new RembgHttpProvider({
+        url: process.env.REMBG_API_URL || '',
+        apiKey: process.env.REMBG_API_KEY || undefined,
+      });
+    case 'local':
+      return new LocalProvider(DEFAULT_COLOR_KEY_OPTIONS);
+  }
+}
+
+/**
+ * Provider chain from the BG_REMOVAL_PROVIDERS environment variable
+ * (comma-separated, in failover order). Defaults to Remove.bg only.
+ *
+ * @throws {PipelineStepError} If the variable names an unknown provider
+ */
+export function getConfiguredProviderNames(): BackgroundRemovalProviderName[] {
+  const names = (process.env.BG_REMOVAL_PROVIDERS || 'remove-bg')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  for (const name of names) {
+    if (!(BG_REMOVAL_PROVIDER_NAMES as readonly string[]).includes(name)) {
+      throw new PipelineStepError(
+        BG_REMOVAL_STEP_NAME,
+        'BG_REMOVAL_NOT_CONFIGURED',
+        500,
+        `BG_REMOVAL_PROVIDERS contains unknown provider "${name}"`
+      );
+    }
+  }
+
+  return names as BackgroundRemovalProviderName[];
+}
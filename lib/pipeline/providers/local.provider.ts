@@ -0,0 +1,35 @@
+import { PipelineStepError } from '../pipeline-step-error';
+import {
+  BG_REMOVAL_STEP_NAME,
+  type BackgroundRemovalResult,
+  type IBackgroundRemovalProvider,
+} from './background-removal-provider.interface';
+import { removeColorKeyedBackground, type ColorKeyOptions } from '../utils/color-key';
+
+/**
+ * Network-free background removal provider for solid and chroma-key backdrops.
+ *
+ * Intended as the last link of a failover chain: it never runs out of quota
+ * and never goes down, at the cost of only handling plain backgrounds well.
+ */
+export class LocalProvider implements IBackgroundRemovalProvider {
+  readonly name = 'local';
+  readonly cutoutMatchesInput = true;
+
+  constructor(private readonly options: ColorKeyOptions) {}
+
+  async removeBackground(image: Buffer): Promise<BackgroundRemovalResult> {
+    try {
+      const { image: cutout } = await removeColorKeyedBackground(image, this.options);
+      return { image: cutout };
+    } catch (error) {
+      throw new PipelineStepError(
+        BG_REMOVAL_STEP_NAME,
+        'BG_REMOVAL_FAILED',
+        500,
+        'Local background removal failed',
+        { cause: error as Error }
+      );
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { PipelineStepError } from '../pipeline-step-error';
+import {
+  BG_REMOVAL_STEP_NAME,
+  type BackgroundRemovalResult,
+  type IBackgroundRemovalProvider,
+} from './background-removal-provider.interface';
+
+/**
+ * Configuration for RembgHttpProvider
+ */
+export interface RembgHttpProviderConfig {
+  /** Full URL of the removal endpoint (e.g. http://rembg:7000/api/remove) */
+  url: string;
+  /** Optional bearer token, for endpoints behind an auth proxy */
+  apiKey?: string;
+}
+
+/**
+ * Background removal provider for a self-hosted, rembg-style HTTP endpoint.
+ *
+ * Sends the image as the multipart `file` field and expects the cutout PNG
+ * as the response body, which is what `rembg s` and compatible servers do.
+ */
+export class RembgHttpProvider implements IBackgroundRemovalProvider {
+  readonly name = 'rembg';
+  readonly cutoutMatchesInput = true;
+
+  constructor(private readonly config: RembgHttpProviderConfig) {
+    if (!config.url) {
+      throw new PipelineStepError(
+        BG_REMOVAL_STEP_NAME,
+        'BG_REMOVAL_NOT_CONFIGURED',
+        500,
+        'REMBG_API_URL environment variable is required for the rembg provider'
+      );
+    }
+  }
+
+  async removeBackground(image: Buffer, signal?: AbortSignal): Promise<BackgroundRemovalResult> {
+    let response: Response;
+
+    try {
+      const formData = new FormData();
+      const blob = new Blob([new Uint8Array(image)], { type: 'image/png' });
+      formData.append('file', blob, 'image.png');
+
+      response = await fetch(this.config.url, {
+        method: 'POST',
+        headers: this.config.apiKey
+          ? { Authorization: `Bearer ${this.config.apiKey}` }
+          : undefined,
+        body: formData,
+        signal,
+      });
+    } catch (error) {
+      throw new PipelineStepError(
+        BG_REMOVAL_STEP_NAME,
+        'BG_REMOVAL_NETWORK_ERROR',
+        502,
+        'Failed to connect to self-hosted background removal service',
+        { cause: error as Error }
+      );
+    }
+
+    if (!response.ok) {
+      throw this.mapErrorStatus(response.status);
+    }
+
+    return { image: Buffer.from(await response.arrayBuffer()) };
+  }
+
+  private mapErrorStatus(status: number): PipelineStepError {
+    if (status === 400 || status === 415 || status === 422) {
+      return new PipelineStepError(
+        BG_REMOVAL_STEP_NAME,
+        'BG_REMOVAL_INVALID_IMAGE',
+        400,
+        'Invalid image: rejected by self-hosted background removal service'
+      );
+    }
+
+    if (status === 429) {
+      return new PipelineStepError(
+        BG_REMOVAL_STEP_NAME,
+        'BG_REMOVAL_RATE_LIMITED',
+        502,
+        'Too many requests to self-hosted background removal service'
+      );
+    }
+
+    if (status >= 500) {
+      return new PipelineStepError(
+        BG_REMOVAL_STEP_NAME,
+        'BG_REMOVAL_SERVICE_UNAVAILABLE',
+        502,
+        'Self-hosted background removal service is temporarily unavailable'
+      );
+    }
+
+    return new PipelineStepError(
+      BG_REMOVAL_STEP_NAME,
+      'BG_REMOVAL_FAILED',
+      502,
+      `Self-hosted background removal failed with status ${status}`
+    );
+  }
+}
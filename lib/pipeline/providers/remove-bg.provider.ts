@@ -0,0 +1,307 @@
+import type { BackgroundRemovalDetails } from '@/lib/types/pipeline';
+import { PipelineStepError } from '../pipeline-step-error';
+import {
+  BG_REMOVAL_STEP_NAME,
+  type BackgroundRemovalResult,
+  type IBackgroundRemovalProvider,
+} from './background-removal-provider.interface';
+
+interface RemoveBgErrorResponse {
+  errors: Array<{
+    title: string;
+    code?: string;
+    detail?: string;
+  }>;
+}
+
+/** Foreground types Remove.bg can be hinted with ('auto' detects it) */
+export const REMOVE_BG_FOREGROUND_TYPES = ['auto', 'person', 'product', 'car'] as const;
+
+/** AI shadows Remove.bg can add under the subject */
+export const REMOVE_BG_SHADOW_TYPES = ['drop', '3D', 'car'] as const;
+
+/** One, two or four lengths in px or %, e.g. '30px' or '10% 5%' */
+export const REMOVE_BG_CROP_MARGIN_PATTERN = /^\d+(?:px|%)(?:(?: \d+(?:px|%))|(?: \d+(?:px|%)){3})?$/;
+
+/** Four lengths in px or %: x1 y1 x2 y2 */
+export const REMOVE_BG_ROI_PATTERN = /^\d+(?:px|%)(?: \d+(?:px|%)){3}$/;
+
+/** 'original', 'center', or a horizontal and optional vertical percentage */
+export const REMOVE_BG_POSITION_PATTERN = /^(?:original|center|\d{1,3}%(?: \d{1,3}%)?)$/;
+
+/**
+ * Remove.bg API features, passed through as request parameters.
+ * Options that crop, move or add to the subject (crop, scale, position,
+ * shadow) change the cutout's framing, so its alpha no longer matches the
+ * input (see IBackgroundRemovalProvider.cutoutMatchesInput).
+ */
+export interface RemoveBgOptions {
+  /** Foreground type hint (`type`); product photos segment better as 'product' */
+  type?: (typeof REMOVE_BG_FOREGROUND_TYPES)[number];
+  /** Crop off empty space around the subject (`crop`) */
+  crop?: boolean;
+  /** Margin kept around the cropped subject (`crop_margin`), e.g. '10%' */
+  cropMargin?: string;
+  /** Region of interest to look for the subject in (`roi`), e.g. '0% 0% 100% 50%' */
+  roi?: string;
+  /** Subject size relative to the image, 10-100 percent (`scale`) */
+  scale?: number;
+  /** Subject position (`position`), e.g. 'center' or '50% 80%' */
+  position?: string;
+  /** AI shadow added under the subject (`shadow_type`) */
+  shadow?: (typeof REMOVE_BG_SHADOW_TYPES)[number];
+  /** Shadow opacity, 0-100 (`shadow_opacity`) */
+  shadowOpacity?: number;
+}
+
+/**
+ * Configuration for RemoveBgProvider
+ */
+export interface RemoveBgProviderConfig {
+  /** Remove.bg API key */
+  apiKey: string;
+  /** API features to request */
+  options?: RemoveBgOptions;
+}
+
+/**
+ * Background removal provider backed by the Remove.bg API.
+ */
+export class RemoveBgProvider implements IBackgroundRemovalProvider {
+  readonly name = 'remove-bg';
+
+  private readonly apiKey: string;
+  private readonly options: RemoveBgOptions;
+  private readonly apiUrl = 'https://api.remove.bg/v1.0/removebg';
+
+  constructor(config: RemoveBgProviderConfig) {
+    this.apiKey = config.apiKey;
+    this.options = config.options ?? {};
+
+    if (!this.apiKey) {
+      throw new PipelineStepError(
+        BG_REMOVAL_STEP_NAME,
+        'BG_REMOVAL_NOT_CONFIGURED',
+        500,
+        'REMOVEBG_API_KEY environment variable is required for the remove-bg provider'
+      );
+    }
+  }
+
+  get cutoutMatchesInput(): boolean {
+    const { crop, scale, position, shadow } = this.options;
+    return !crop && scale === undefined && (position ?? 'original') === 'original' && !shadow;
+  }
+
+  async removeBackground(image: Buffer, signal?: AbortSignal): Promise<BackgroundRemovalResult> {
+    try {
+      const formData = new FormData();
+      // Convert Buffer to Blob properly for FormData
+      const blob = new Blob([new Uint8Array(image)], { type: 'image/png' });
+      formData.append('image_file', blob, 'image.png');
+      formData.append('size', 'auto');
+      this.appendOptions(formData);
+
+      const response = await fetch(this.apiUrl, {
+        method: 'POST',
+        headers: {
+          'X-Api-Key': this.apiKey,
+        },
+        body: formData,
+        signal,
+      });
+
+      // Handle error responses
+      if (!response.ok) {
+        await this.handleErrorResponse(response);
+      }
+
+      const arrayBuffer = await response.arrayBuffer();
+      return { image: Buffer.from(arrayBuffer), details: parseResponseDetails(response.headers) };
+    } catch (error) {
+      // If it's already a PipelineStepError, re-throw
+      if (error instanceof PipelineStepError) {
+        throw error;
+      }
+      
+      // Network or other fetch errors
+      throw new PipelineStepError(
+        BG_REMOVAL_STEP_NAME,
+        'BG_REMOVAL_NETWORK_ERROR',
+        502,
+        'Failed to connect to background removal service',
+        { cause: error as Error }
+      );
+    }
+  }
+
+  /**
+   * Add the configured API features as request parameters
+   */
+  private appendOptions(formData: FormData): void {
+    const { type, crop, cropMargin, roi, scale, position, shadow, shadowOpacity } = this.options;
+
+    if (type) formData.append('type', type);
+    if (crop) {
+      formData.append('crop', 'true');
+      if (cropMargin) formData.append('crop_margin', cropMargin);
+    }
+    if (roi) formData.append('roi', roi);
+    if (scale !== undefined) formData.append('scale', `${scale}%`);
+    if (position) formData.append('position', position);
+    if (shadow) {
+      formData.append('shadow_type', shadow);
+      if (shadowOpacity !== undefined) formData.append('shadow_opacity', String(shadowOpacity));
+    }
+  }
+
+  private async handleErrorResponse(response: Response): Promise<never> {
+    let errorDetails: RemoveBgErrorResponse;
+    
+    try {
+      errorDetails = await response.json() as RemoveBgErrorResponse;
+    } catch {
+      errorDetails = { errors: [{ title: 'Unknown error' }] };
+    }
+
+    const errorMessage = errorDetails.errors?.[0]?.title || 'Background removal failed';
+
+    switch (response.status) {
+      case 400:
+        throw new PipelineStepError(
+          BG_REMOVAL_STEP_NAME,
+          'BG_REMOVAL_INVALID_IMAGE',
+          400,
+          `Invalid image: ${errorMessage}`
+        );
+      
+      case 402:
+      case 403:
+        throw new PipelineStepError(
+          BG_REMOVAL_STEP_NAME,
+          'BG_REMOVAL_QUOTA_EXCEEDED',
+          502,
+          'Background removal quota exceeded or insufficient credits'
+        );
+      
+      case 429:
+        throw new PipelineStepError(
+          BG_REMOVAL_STEP_NAME,
+          'BG_REMOVAL_RATE_LIMITED',
+          502,
+          'Too many requests to background removal service',
+          { retryAfterMs: parseRetryAfterMs(response.headers) }
+        );
+      
+      case 500:
+      case 502:
+      case 503:
+      case 504:
+        throw new PipelineStepError(
+          BG_REMOVAL_STEP_NAME,
+          'BG_REMOVAL_SERVICE_UNAVAILABLE',
+          502,
+          'Background removal service is temporarily unavailable'
+        );
+      
+      default:
+        throw new PipelineStepError(
+          BG_REMOVAL_STEP_NAME,
+          'BG_REMOVAL_FAILED',
+          502,
+          `Background removal failed: ${errorMessage}`
+        );
+    }
+  }
+}
+
+/**
+ * Read a numeric response header
+ *
+ * @returns The header's value, or undefined if it is missing or not a number
+ */
+function readNumberHeader(headers: Headers, name: string): number | undefined {
+  const value = headers.get(name)?.trim();
+  if (!value) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Parse what Remove.bg reports about a cutout from its response headers:
+ * credits charged (X-Credits-Charged), detected foreground type (X-Type),
+ * result size (X-Width/X-Height), foreground bounding box
+ * (X-Foreground-Top/Left/Width/Height) and rate limit (X-RateLimit-*)
+ */
+function parseResponseDetails(headers: Headers): BackgroundRemovalDetails {
+  const details: BackgroundRemovalDetails = {};
+
+  const creditsCharged = readNumberHeader(headers, 'X-Credits-Charged');
+  if (creditsCharged !== undefined) details.creditsCharged = creditsCharged;
+
+  const foregroundType = headers.get('X-Type');
+  if (foregroundType) details.foregroundType = foregroundType;
+
+  const width = readNumberHeader(headers, 'X-Width');
+  const height = readNumberHeader(headers, 'X-Height');
+  if (width !== undefined && height !== undefined) {
+    details.resultSize = { width, height };
+  }
+
+  const bounds = {
+    left: readNumberHeader(headers, 'X-Foreground-Left'),
+    top: readNumberHeader(headers, 'X-Foreground-Top'),
+    width: readNumberHeader(headers, 'X-Foreground-Width'),
+    height: readNumberHeader(headers, 'X-Foreground-Height'),
+  };
+  if (
+    bounds.left !== undefined &&
+    bounds.top !== undefined &&
+    bounds.width !== undefined &&
+    bounds.height !== undefined
+  ) {
+    details.foregroundBounds = {
+      left: bounds.left,
+      top: bounds.top,
+      width: bounds.width,
+      height: bounds.height,
+    };
+  }
+
+  const limit = readNumberHeader(headers, 'X-RateLimit-Limit');
+  const remaining = readNumberHeader(headers, 'X-RateLimit-Remaining');
+  const reset = readNumberHeader(headers, 'X-RateLimit-Reset');
+  if (limit !== undefined || remaining !== undefined || reset !== undefined) {
+    details.rateLimit = {
+      limit,
+      remaining,
+      // Unix timestamp in seconds
+      resetAt: reset !== undefined ? new Date(reset * 1000).toISOString() : undefined,
+    };
+  }
+
+  return details;
+}
+
+/**
+ * How long Remove.bg asks clients to wait after a 429: Retry-After (seconds)
+ * when sent, otherwise the time until X-RateLimit-Reset
+ *
+ * @returns Wait in milliseconds, or undefined if neither header is usable
+ */
+function parseRetryAfterMs(headers: Headers): number | undefined {
+  const retryAfter = readNumberHeader(headers, 'Retry-After');
+  if (retryAfter !== undefined) {
+    return Math.max(0, retryAfter * 1000);
+  }
+
+  const reset = readNumberHeader(headers, 'X-RateLimit-Reset');
+  if (reset !== undefined) {
+    return Math.max(0, reset * 1000 - Date.now());
+  }
+
+  return undefined;
+}
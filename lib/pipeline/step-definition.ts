@@ -0,0 +1,53 @@
+import type { IImageProcessingStep } from './image-processing-step';
+import type { OptionsSchema } from './options-schema';
+
+/** Options type for steps that take no options */
+export type NoOptions = Record<string, never>;
+
+/**
+ * Request-scoped services available to step factories.
+ *
+ * Supplied by the caller that builds the pipeline (e.g. the upload route),
+ * so steps can reach user data without depending on auth or storage.
+ */
+export interface StepServices {
+  /**
+   * Load the original image of another conversion owned by the current user
+   *
+   * @param conversionId - Conversion UUID
+   * @returns Image bytes, or null if the conversion does not exist or is not accessible
+   */
+  loadConversionImage(conversionId: string): Promise<Buffer | null>;
+}
+
+/**
+ * Registration entry for a pipeline step.
+ *
+ * Describes how to build a step from plain JSON: the options it accepts,
+ * their defaults, and a factory that receives fully validated options.
+ */
+export interface StepDefinition<TOptions extends object = NoOptions> {
+  /** Step name used in pipeline specs; matches the step's `name` */
+  readonly name: string;
+  /** Short human-readable summary of what the step does */
+  readonly description: string;
+  /** Schema for the options accepted in pipeline specs */
+  readonly optionsSchema: OptionsSchema<TOptions>;
+  /** Values used for options omitted from the spec */
+  readonly defaultOptions: TOptions;
+  /** True if the step always outputs an opaque image (allows JPEG output) */
+  readonly producesOpaqueOutput?: boolean;
+  /**
+   * True if the step cuts out the subject and keeps its alpha mask; such a
+   * step can be swapped for a stored mask when a conversion is re-rendered
+   */
+  readonly removesBackground?: boolean;
+
+  /**
+   * Build a configured step instance.
+   *
+   * @param options - Validated options merged over defaultOptions
+   * @param services - Request-scoped services for steps that need user data
+   */
+  create(options: TOptions, services: StepServices): IImageProcessingStep;
+}
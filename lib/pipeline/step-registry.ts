@@ -0,0 +1,121 @@
+import type { IImageProcessingStep } from './image-processing-step';
+import { PipelineStepError } from './pipeline-step-error';
+import type { StepDefinition, StepServices } from './step-definition';
+import { validateOptions } from './options-schema';
+import { formatNormalizationStepDefinition } from './steps/format-normalization.step';
+import { backgroundRemovalStepDefinition } from './steps/background-removal.step';
+import { localBackgroundRemovalStepDefinition } from './steps/local-background-removal.step';
+import { defringeStepDefinition } from './steps/defringe.step';
+import { edgeRefinementStepDefinition } from './steps/edge-refinement.step';
+import { autoCropStepDefinition } from './steps/auto-crop.step';
+import { horizontalFlipStepDefinition } from './steps/horizontal-flip.step';
+import { rotationStepDefinition } from './steps/rotation.step';
+import { backgroundReplacementStepDefinition } from './steps/background-replacement.step';
+import type { PipelineStepSpec } from '@/lib/types/pipeline';
+
+/**
+ * Registry of pipeline steps keyed by step name.
+ *
+ * Each step is registered with a StepDefinition (options schema, defaults,
+ * factory), so pipelines can be described as plain JSON (see PipelineSpec)
+ * and validated up front, without callers knowing the concrete classes.
+ */
+export class StepRegistry {
+  private readonly definitions = new Map<string, StepDefinition<object>>();
+
+  /**
+   * Register a step definition under its name
+   *
+   * @param definition - Step definition to register
+   * @returns The registry, for chaining
+   */
+  register<TOptions extends object>(definition: StepDefinition<TOptions>): this {
+    if (this.definitions.has(definition.name)) {
+      throw new Error(`Pipeline step "${definition.name}" is already registered`);
+    }
+
+    this.definitions.set(definition.name, definition as StepDefinition<object>);
+    return this;
+  }
+
+  /**
+   * Names of all registered steps
+   */
+  get names(): string[] {
+    return [...this.definitions.keys()];
+  }
+
+  /**
+   * Look up the definition for a step name
+   *
+   * @throws {PipelineStepError} If no step is registered under the name
+   */
+  getDefinition(name: string): StepDefinition<object> {
+    const definition = this.definitions.get(name);
+
+    if (!definition) {
+      throw new PipelineStepError(
+        name,
+        'PIPELINE_UNKNOWN_STEP',
+        400,
+        `Unknown pipeline step "${name}". Available steps: ${this.names.join(', ')}`
+      );
+    }
+
+    return definition;
+  }
+
+  /**
+   * Validate a step spec and return it with defaults filled in
+   *
+   * @param spec - Step name and raw options
+   * @returns Step spec whose options are complete and valid
+   * @throws {PipelineStepError} If the step is unknown or its options are invalid
+   */
+  resolve(spec: PipelineStepSpec): Required<PipelineStepSpec> {
+    const definition = this.getDefinition(spec.name);
+    const result = validateOptions(
+      definition.optionsSchema,
+      definition.defaultOptions,
+      spec.options ?? {}
+    );
+
+    if (!result.valid) {
+      throw new PipelineStepError(
+        spec.name,
+        'PIPELINE_INVALID_STEP_OPTIONS',
+        400,
+        `Invalid options for step "${spec.name}": ${result.errors.join('; ')}`
+      );
+    }
+
+    return { name: spec.name, options: result.options as Record<string, unknown> };
+  }
+
+  /**
+   * Resolve a step spec into a configured step instance
+   *
+   * @param spec - Step name and raw options
+   * @param services - Request-scoped services passed to the step factory
+   * @returns Configured step instance
+   * @throws {PipelineStepError} If the step is unknown or its options are invalid
+   */
+  create(spec: PipelineStepSpec, services: StepServices): IImageProcessingStep {
+    const { options } = this.resolve(spec);
+    return this.getDefinition(spec.name).create(options, services);
+  }
+}
+
+/**
+ * Module-level registry with all built-in steps
+ */
+export const stepRegistry = new StepRegistry()
+  .register(formatNormalizationStepDefinition)
+  .register(backgroundRemovalStepDefinition)
+  .register(localBackgroundRemovalStepDefinition)
+  .register(defringeStepDefinition)
+  .register(edgeRefinementStepDefinition)
+  .register(autoCropStepDefinition)
+  .register(horizontalFlipStepDefinition)
+  .register(rotationStepDefinition)
+  .register(backgroundReplacementStepDefinition);
@@ -0,0 +1,137 @@
+import sharp from 'sharp';
+import { IImageProcessingStep } from '../image-processing-step';
+import { PipelineStepError } from '../pipeline-step-error';
+import type { PipelineContext } from '../pipeline-context';
+import type { StepDefinition } from '../step-definition';
+import { findAlphaBoundingBox } from '../utils/alpha';
+
+export interface AutoCropOptions {
+  /** Pixels with alpha at or below this value are treated as empty (0-254) */
+  alphaThreshold: number;
+  /** Margin added around the subject on every side */
+  padding: number;
+  /** Whether padding is in pixels or a percent of the subject's longer side */
+  paddingUnit: 'px' | 'percent';
+  /** Center the subject on a square canvas */
+  square: boolean;
+}
+
+const TRANSPARENT = { r: 0, g: 0, b: 0, alpha: 0 };
+
+/** Largest padding in `px` */
+export const MAX_PADDING_PX = 1000;
+
+/** Largest padding in `percent` (a margin of the subject's longer side on every side) */
+export const MAX_PADDING_PERCENT = 100;
+
+/**
+ * Largest canvas the step produces: sharp's default input pixel limit, so
+ * later steps can still decode the result
+ */
+const MAX_CANVAS_PIXELS = 0x3fff * 0x3fff;
+
+/**
+ * Pipeline step that crops to the subject's bounding box in the alpha channel
+ * and re-pads it by a consistent margin.
+ *
+ * Runs after background removal and before flips or resizes, so catalog
+ * images are framed the same way regardless of the original canvas.
+ */
+export class AutoCropStep implements IImageProcessingStep {
+  readonly name = 'auto-crop';
+
+  constructor(private readonly options: AutoCropOptions) {}
+
+  async process(context: PipelineContext): Promise<Buffer> {
+    try {
+      const box = await findAlphaBoundingBox(context.image, this.options.alphaThreshold);
+
+      if (!box) {
+        context.addWarning('No visible subject found; image was not cropped');
+        return context.image;
+      }
+
+      context.setMetadata('subjectBounds', box);
+
+      // On a square canvas, split the extra space so the subject stays centered
+      const side = Math.max(box.width, box.height);
+      const extraX = this.options.square ? side - box.width : 0;
+      const extraY = this.options.square ? side - box.height : 0;
+
+      const requestedMargin = Math.round(
+        this.options.paddingUnit === 'percent'
+          ? (side * this.options.padding) / 100
+          : this.options.padding
+      );
+      const margin = Math.min(
+        requestedMargin,
+        maxMarginWithin(box.width + extraX, box.height + extraY, MAX_CANVAS_PIXELS)
+      );
+      if (margin < requestedMargin) {
+        context.addWarning(
+          `Padding was reduced to ${margin}px to keep the image within ${MAX_CANVAS_PIXELS} pixels`
+        );
+      }
+
+      const cropped = await sharp(context.image).ensureAlpha().extract(box).png().toBuffer();
+
+      return await sharp(cropped)
+        .extend({
+          left: margin + Math.floor(extraX / 2),
+          right: margin + Math.ceil(extraX / 2),
+          top: margin + Math.floor(extraY / 2),
+          bottom: margin + Math.ceil(extraY / 2),
+          background: TRANSPARENT,
+        })
+        .png()
+        .toBuffer();
+    } catch (error) {
+      throw new PipelineStepError(
+        this.name,
+        'AUTO_CROP_FAILED',
+        500,
+        'Failed to crop image to its subject',
+        { cause: error as Error }
+      );
+    }
+  }
+}
+
+/**
+ * Largest margin that keeps a width × height image, padded by it on every
+ * side, within `maxPixels`
+ */
+function maxMarginWithin(width: number, height: number, maxPixels: number): number {
+  // Largest root of (width + 2m)(height + 2m) = maxPixels
+  const root = (Math.sqrt((width - height) ** 2 + 4 * maxPixels) - (width + height)) / 4;
+  return Math.max(0, Math.floor(root));
+}
+
+export const autoCropStepDefinition: StepDefinition<AutoCropOptions> = {
+  name: 'auto-crop',
+  description: 'Crops to the visible subject and re-pads it by a margin',
+  optionsSchema: {
+    alphaThreshold: { type: 'number', min: 0, max: 254, integer: true },
+    padding: { type: 'number', min: 0, max: MAX_PADDING_PX },
+    paddingUnit: { type: 'enum', values: ['px', 'percent'] },
+    square: { type: 'boolean' },
+  },
+  defaultOptions: {
+    alphaThreshold: 8,
+    padding: 5,
+    paddingUnit: 'percent',
+    square: false,
+  },
+  create: (options) => {
+    if (options.paddingUnit === 'percent' && options.padding > MAX_PADDING_PERCENT) {
+      throw new PipelineStepError(
+        'auto-crop',
+        'PIPELINE_INVALID_STEP_OPTIONS',
+        400,
+        `Invalid options for step "auto-crop": padding must be at most ${MAX_PADDING_PERCENT} when paddingUnit is "percent"`
+      );
+    }
+
+    return new AutoCropStep(options);
+  },
+};
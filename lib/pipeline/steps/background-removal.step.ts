@@ -1,193 +1,406 @@
+import sharp from 'sharp';
 import { IImageProcessingStep } from '../image-processing-step';
 import { PipelineStepError } from '../pipeline-step-error';
+import type { PipelineContext } from '../pipeline-context';
+import type { StepDefinition } from '../step-definition';
+import type { BackgroundRemovalDetails } from '@/lib/types/pipeline';
+import {
+  BG_REMOVAL_DETAILS_METADATA_KEY,
+  BG_REMOVAL_PROVIDER_METADATA_KEY,
+  type BackgroundRemovalResult,
+  type IBackgroundRemovalProvider,
+} from '../providers/background-removal-provider.interface';
+import {
+  BG_REMOVAL_PROVIDER_NAMES,
+  createBackgroundRemovalProvider,
+  getConfiguredProviderNames,
+  type BackgroundRemovalProviderName,
+} from '../providers/background-removal-providers';
+import {
+  REMOVE_BG_CROP_MARGIN_PATTERN,
+  REMOVE_BG_FOREGROUND_TYPES,
+  REMOVE_BG_POSITION_PATTERN,
+  REMOVE_BG_ROI_PATTERN,
+  REMOVE_BG_SHADOW_TYPES,
+  type RemoveBgOptions,
+} from '../providers/remove-bg.provider';
+import { CircuitBreaker, CircuitOpenError } from '@/lib/utils/circuit-breaker';
+import { withRetry } from '@/lib/utils/retry';
+import {
+  applyAlphaMask,
+  extractAlphaMask,
+  recordAlphaMask,
+  upscaleAlphaMask,
+} from '../utils/alpha';
 
-interface RemoveBgErrorResponse {
-  errors: Array<{
-    title: string;
-    code?: string;
-    detail?: string;
-  }>;
+/** Bounds of the proxy's longer side, in pixels */
+export const MIN_PROXY_SIZE = 256;
+export const MAX_PROXY_SIZE = 4096;
+
+/**
+ * Options accepted by the background-removal step in pipeline specs
+ */
+export interface BackgroundRemovalOptions {
+  /**
+   * Providers to try, in failover order.
+   * Defaults to the BG_REMOVAL_PROVIDERS environment variable.
+   */
+  providers?: BackgroundRemovalProviderName[];
+  /**
+   * Append the network-free local provider to the chain, so solid
+   * backgrounds are still removed when every remote provider is unavailable
+   */
+  localFallback: boolean;
+  /**
+   * Send providers a copy downscaled to this longer side (px) and apply
+   * the returned alpha, upscaled, to the full-resolution image. Keeps
+   * requests small while the output keeps the input's resolution.
+   * Images already within the size are sent as-is.
+   */
+  proxySize?: number;
+  /** Remove.bg API features (foreground type, crop, region, scale, shadow) */
+  removeBg?: RemoveBgOptions;
 }
 
+/** Options that shape how providers are called */
+type RemovalCallOptions = Pick<BackgroundRemovalOptions, 'proxySize'>;
+
+/** Error codes worth retrying with the same provider */
+const RETRYABLE_CODES = [
+  'BG_REMOVAL_NETWORK_ERROR',
+  'BG_REMOVAL_SERVICE_UNAVAILABLE',
+  'BG_REMOVAL_RATE_LIMITED',
+];
+
+/** Error codes after which the next provider is tried */
+const FAILOVER_CODES = [
+  'BG_REMOVAL_QUOTA_EXCEEDED',
+  'BG_REMOVAL_SERVICE_UNAVAILABLE',
+  'BG_REMOVAL_RATE_LIMITED',
+  'BG_REMOVAL_NETWORK_ERROR',
+  'BG_REMOVAL_CIRCUIT_OPEN',
+];
+
+/** Error codes of answers from a provider, which show it is reachable */
+const RESPONSE_CODES = [
+  'BG_REMOVAL_INVALID_IMAGE',
+  'BG_REMOVAL_QUOTA_EXCEEDED',
+  'BG_REMOVAL_RATE_LIMITED',
+  'BG_REMOVAL_FAILED',
+];
+
 /**
- * Pipeline step that removes image backgrounds using the Remove.bg API.
- * 
+ * Circuit breakers per provider name, shared by all runs on this server
+ * instance: once a provider keeps reporting itself unavailable, runs skip
+ * it (BG_REMOVAL_CIRCUIT_OPEN) instead of retrying it again and again
+ */
+const providerCircuits = new Map<string, CircuitBreaker>();
+
+function getProviderCircuit(providerName: string): CircuitBreaker {
+  let circuit = providerCircuits.get(providerName);
+  if (!circuit) {
+    circuit = new CircuitBreaker(providerName, {
+      failureThreshold: 5,
+      resetTimeoutMs: 30000,
+      isFailure: (error) =>
+        error instanceof PipelineStepError && error.code === 'BG_REMOVAL_SERVICE_UNAVAILABLE',
+      isResponse: (error) =>
+        error instanceof PipelineStepError && RESPONSE_CODES.includes(error.code),
+    });
+    providerCircuits.set(providerName, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Pipeline step that removes image backgrounds through a chain of providers.
+ *
  * Features:
- * - Automatic retries for transient failures (network issues, 5xx errors)
- * - Detailed error mapping for different failure scenarios
+ * - Automatic retries for transient failures (network issues, 5xx errors),
+ *   with exponential backoff and jitter within a per-call time budget
+ * - A circuit breaker per provider: after repeated "service unavailable"
+ *   errors the provider is skipped until a probe call succeeds
+ * - Failover to the next provider on quota, rate-limit or availability errors
+ * - Records which provider produced the cutout in the pipeline metadata,
+ *   with what it reported (credits charged, detected foreground, rate limit);
+ *   credits are summed when the step runs once per animation frame
+ * - Waits as long as a rate-limited provider asks (Retry-After) before
+ *   retrying, and fails over right away when that is too long
+ * - Keeps the cutout's alpha mask as a pipeline artifact, unless the
+ *   provider reframed the subject (see cutoutMatchesInput)
+ * - Optional proxy mode: providers get a downscaled copy and their alpha
+ *   is upscaled onto the full-resolution image, since providers may return
+ *   smaller cutouts than they were sent (e.g. Remove.bg with size "auto")
  * - Self-contained error handling - all failures converted to PipelineStepError
  */
 export class BackgroundRemovalStep implements IImageProcessingStep {
   readonly name = 'background-removal';
-  
-  private readonly apiKey: string;
-  private readonly apiUrl = 'https://api.remove.bg/v1.0/removebg';
+  /** Bounds a call including retries and failover; provider calls are aborted after it */
+  readonly timeoutMs = 90000;
+
   private readonly maxRetries = 2;
   private readonly retryDelayMs = 1000;
+  private readonly maxRetryDelayMs = 10000;
+  private readonly retryBudgetMs = 20000;
 
-  constructor() {
-    this.apiKey = process.env.REMOVEBG_API_KEY || '';
-    
-    if (!this.apiKey) {
-      throw new Error(
-        'REMOVEBG_API_KEY environment variable is required for BackgroundRemovalStep'
+  /**
+   * @param providers - Providers to try, in failover order
+   * @param options - Proxy settings (see BackgroundRemovalOptions)
+   */
+  constructor(
+    private readonly providers: IBackgroundRemovalProvider[],
+    private readonly options: RemovalCallOptions = {}
+  ) {
+    if (providers.length === 0) {
+      throw new PipelineStepError(
+        this.name,
+        'BG_REMOVAL_NOT_CONFIGURED',
+        500,
+        'At least one background removal provider is required'
       );
     }
   }
 
-  async process(image: Buffer): Promise<Buffer> {
-    let lastError: Error | null = null;
-    
-    // Retry logic for transient failures
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+  async process(context: PipelineContext): Promise<Buffer> {
+    const proxy = await this.createProxy(context);
+    let lastError: PipelineStepError | null = null;
+    let lastProvider: IBackgroundRemovalProvider | null = null;
+
+    for (const provider of this.providers) {
+      if (lastError && lastProvider) {
+        context.addWarning(
+          `Provider "${lastProvider.name}" failed (${lastError.code}); failing over to "${provider.name}"`
+        );
+      }
+
       try {
-        return await this.removeBackground(image);
+        const { image: removed, details } = await this.removeWithRetries(
+          provider,
+          proxy ?? context.image,
+          context
+        );
+        context.setMetadata(BG_REMOVAL_PROVIDER_METADATA_KEY, provider.name);
+        if (details) {
+          this.recordDetails(context, details);
+        }
+        const cutout = proxy ? await this.applyAtFullResolution(context.image, removed) : removed;
+        if (provider.cutoutMatchesInput) {
+          await recordAlphaMask(context, cutout);
+        }
+        return cutout;
       } catch (error) {
-        lastError = error as Error;
-        
-        // If it's already a PipelineStepError, check if it's retryable
-        if (error instanceof PipelineStepError) {
-          const isRetryable = this.isRetryableError(error);
-          
-          if (!isRetryable || attempt === this.maxRetries) {
-            throw error;
-          }
-          
-          // Wait before retrying
-          await this.sleep(this.retryDelayMs * (attempt + 1));
-          continue;
+        const stepError = error as PipelineStepError;
+        if (!FAILOVER_CODES.includes(stepError.code)) {
+          throw stepError;
         }
-        
-        // Unexpected error - convert and throw
-        throw new PipelineStepError(
-          this.name,
-          'BG_REMOVAL_UNEXPECTED_ERROR',
-          500,
-          'An unexpected error occurred during background removal',
-          { cause: error }
-        );
+        lastError = stepError;
+        lastProvider = provider;
       }
     }
-    
-    // Should never reach here due to throw in loop, but TypeScript doesn't know that
-    throw new PipelineStepError(
-      this.name,
-      'BG_REMOVAL_FAILED',
-      500,
-      'Background removal failed after retries',
-      { cause: lastError || undefined }
+
+    // Every provider failed with a failover-eligible error; surface the last one
+    throw lastError;
+  }
+
+  /**
+   * Store the provider's details in the pipeline metadata, adding the
+   * credits of earlier calls in the run (other frames of an animation)
+   */
+  private recordDetails(context: PipelineContext, details: BackgroundRemovalDetails): void {
+    const previous = context.getMetadata<BackgroundRemovalDetails>(BG_REMOVAL_DETAILS_METADATA_KEY);
+    const credits = [previous?.creditsCharged, details.creditsCharged].filter(
+      (value): value is number => value !== undefined
     );
+
+    context.setMetadata(BG_REMOVAL_DETAILS_METADATA_KEY, {
+      ...previous,
+      ...details,
+      creditsCharged: credits.length > 0 ? credits.reduce((sum, value) => sum + value) : undefined,
+    });
   }
 
-  private async removeBackground(image: Buffer): Promise<Buffer> {
+  /**
+   * Downscale the input for providers when proxy mode is on and the image
+   * exceeds the proxy size
+   *
+   * @returns Proxy image as PNG, or null to send the input as-is
+   */
+  private async createProxy(context: PipelineContext): Promise<Buffer | null> {
+    const { proxySize } = this.options;
+    if (proxySize === undefined) {
+      return null;
+    }
+
     try {
-      const formData = new FormData();
-      // Convert Buffer to Blob properly for FormData
-      const blob = new Blob([new Uint8Array(image)], { type: 'image/png' });
-      formData.append('image_file', blob, 'image.png');
-      formData.append('size', 'auto');
-
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers: {
-          'X-Api-Key': this.apiKey,
-        },
-        body: formData,
-      });
-
-      // Handle error responses
-      if (!response.ok) {
-        await this.handleErrorResponse(response);
+      const { width, height } = await sharp(context.image).metadata();
+      if (!width || !height || Math.max(width, height) <= proxySize) {
+        return null;
       }
 
-      const arrayBuffer = await response.arrayBuffer();
-      return Buffer.from(arrayBuffer);
+      const { data, info } = await sharp(context.image)
+        .resize(proxySize, proxySize, { fit: 'inside' })
+        .png()
+        .toBuffer({ resolveWithObject: true });
+      context.setMetadata('removalProxySize', { width: info.width, height: info.height });
+      return data;
     } catch (error) {
-      // If it's already a PipelineStepError, re-throw
-      if (error instanceof PipelineStepError) {
-        throw error;
-      }
-      
-      // Network or other fetch errors
       throw new PipelineStepError(
         this.name,
-        'BG_REMOVAL_NETWORK_ERROR',
-        502,
-        'Failed to connect to background removal service',
+        'BG_REMOVAL_PROXY_FAILED',
+        500,
+        'Failed to downscale the image for background removal',
         { cause: error as Error }
       );
     }
   }
 
-  private async handleErrorResponse(response: Response): Promise<never> {
-    let errorDetails: RemoveBgErrorResponse;
-    
+  /**
+   * Cut out the full-resolution image with the alpha of a proxy's cutout
+   */
+  private async applyAtFullResolution(image: Buffer, proxyCutout: Buffer): Promise<Buffer> {
     try {
-      errorDetails = await response.json() as RemoveBgErrorResponse;
-    } catch {
-      errorDetails = { errors: [{ title: 'Unknown error' }] };
-    }
-
-    const errorMessage = errorDetails.errors?.[0]?.title || 'Background removal failed';
+      const { width, height } = await sharp(image).metadata();
+      if (!width || !height) {
+        throw new Error('Unable to read image dimensions');
+      }
 
-    switch (response.status) {
-      case 400:
-        throw new PipelineStepError(
-          this.name,
-          'BG_REMOVAL_INVALID_IMAGE',
-          400,
-          `Invalid image: ${errorMessage}`
-        );
-      
-      case 402:
-      case 403:
-        throw new PipelineStepError(
-          this.name,
-          'BG_REMOVAL_QUOTA_EXCEEDED',
-          502,
-          'Background removal quota exceeded or insufficient credits'
-        );
-      
-      case 429:
-        throw new PipelineStepError(
-          this.name,
-          'BG_REMOVAL_RATE_LIMITED',
-          502,
-          'Too many requests to background removal service'
-        );
-      
-      case 500:
-      case 502:
-      case 503:
-      case 504:
-        throw new PipelineStepError(
-          this.name,
-          'BG_REMOVAL_SERVICE_UNAVAILABLE',
-          502,
-          'Background removal service is temporarily unavailable'
-        );
-      
-      default:
-        throw new PipelineStepError(
-          this.name,
-          'BG_REMOVAL_FAILED',
-          502,
-          `Background removal failed: ${errorMessage}`
-        );
+      const mask = await upscaleAlphaMask(await extractAlphaMask(proxyCutout), width, height);
+      return await applyAlphaMask(image, mask);
+    } catch (error) {
+      throw new PipelineStepError(
+        this.name,
+        'BG_REMOVAL_PROXY_FAILED',
+        500,
+        'Failed to apply the background removal result at full resolution',
+        { cause: error as Error }
+      );
     }
   }
 
-  private isRetryableError(error: PipelineStepError): boolean {
-    const retryableCodes = [
-      'BG_REMOVAL_NETWORK_ERROR',
-      'BG_REMOVAL_SERVICE_UNAVAILABLE',
-      'BG_REMOVAL_RATE_LIMITED',
-    ];
-    
-    return retryableCodes.includes(error.code);
+  /**
+   * Call a single provider through its circuit breaker, retrying transient
+   * failures. Rate-limited retries wait for the provider's Retry-After when
+   * it sent one; waits longer than maxRetryDelayMs are not worth it, so the
+   * error is thrown for failover instead.
+   *
+   * @param image - Image to send (the input or its proxy)
+   * @throws {PipelineStepError} Once retries are exhausted or the error is
+   *         not retryable; BG_REMOVAL_CIRCUIT_OPEN while the provider's
+   *         circuit is open
+   */
+  private async removeWithRetries(
+    provider: IBackgroundRemovalProvider,
+    image: Buffer,
+    context: PipelineContext
+  ): Promise<BackgroundRemovalResult> {
+    const circuit = getProviderCircuit(provider.name);
+
+    return withRetry(
+      async () => {
+        try {
+          return await circuit.execute(() => provider.removeBackground(image, context.signal));
+        } catch (error) {
+          throw this.toStepError(provider, error);
+        }
+      },
+      {
+        maxRetries: this.maxRetries,
+        baseDelayMs: this.retryDelayMs,
+        maxDelayMs: this.maxRetryDelayMs,
+        budgetMs: this.retryBudgetMs,
+        isRetryable: (error) => RETRYABLE_CODES.includes((error as PipelineStepError).code),
+        getRetryAfterMs: (error) => (error as PipelineStepError).retryAfterMs,
+        onRetry: (error) =>
+          context.recordRetry(`${provider.name}: ${(error as PipelineStepError).code}`),
+        signal: context.signal,
+      }
+    );
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  /**
+   * Convert errors that are not already PipelineStepErrors; unexpected
+   * errors are never retried
+   */
+  private toStepError(provider: IBackgroundRemovalProvider, error: unknown): PipelineStepError {
+    if (error instanceof PipelineStepError) {
+      return error;
+    }
+
+    if (error instanceof CircuitOpenError) {
+      return new PipelineStepError(
+        this.name,
+        'BG_REMOVAL_CIRCUIT_OPEN',
+        503,
+        `Background removal provider "${provider.name}" is unavailable after repeated failures`,
+        { cause: error, retryAfterMs: error.retryAfterMs }
+      );
+    }
+
+    return new PipelineStepError(
+      this.name,
+      'BG_REMOVAL_UNEXPECTED_ERROR',
+      500,
+      'An unexpected error occurred during background removal',
+      { cause: error }
+    );
   }
 }
+
+export const backgroundRemovalStepDefinition: StepDefinition<BackgroundRemovalOptions> = {
+  name: 'background-removal',
+  description: 'Removes the image background using a failover chain of providers',
+  optionsSchema: {
+    providers: {
+      type: 'array',
+      items: { type: 'enum', values: BG_REMOVAL_PROVIDER_NAMES },
+      minItems: 1,
+      maxItems: BG_REMOVAL_PROVIDER_NAMES.length,
+      optional: true,
+    },
+    localFallback: { type: 'boolean' },
+    proxySize: {
+      type: 'number',
+      min: MIN_PROXY_SIZE,
+      max: MAX_PROXY_SIZE,
+      integer: true,
+      optional: true,
+    },
+    removeBg: {
+      type: 'object',
+      optional: true,
+      fields: {
+        type: { type: 'enum', values: REMOVE_BG_FOREGROUND_TYPES, optional: true },
+        crop: { type: 'boolean', optional: true },
+        cropMargin: { type: 'string', pattern: REMOVE_BG_CROP_MARGIN_PATTERN, optional: true },
+        roi: { type: 'string', pattern: REMOVE_BG_ROI_PATTERN, optional: true },
+        scale: { type: 'number', min: 10, max: 100, integer: true, optional: true },
+        position: { type: 'string', pattern: REMOVE_BG_POSITION_PATTERN, optional: true },
+        shadow: { type: 'enum', values: REMOVE_BG_SHADOW_TYPES, optional: true },
+        shadowOpacity: { type: 'number', min: 0, max: 100, integer: true, optional: true },
+      },
+    },
+  },
+  defaultOptions: { localFallback: false },
+  removesBackground: true,
+  create: (options) => {
+    const names = [...(options.providers ?? getConfiguredProviderNames())];
+    if (options.localFallback && !names.includes('local')) {
+      names.push('local');
+    }
+    const providers = names.map((name) =>
+      createBackgroundRemovalProvider(name, { removeBg: options.removeBg })
+    );
+
+    // A proxy's alpha is applied to the input, which needs matching framing
+    if (options.proxySize !== undefined && providers.some((p) => !p.cutoutMatchesInput)) {
+      throw new PipelineStepError(
+        'background-removal',
+        'PIPELINE_INVALID_STEP_OPTIONS',
+        400,
+        'Invalid options for step "background-removal": proxySize cannot be combined with Remove.bg crop, scale, position or shadow'
+      );
+    }
+
+    return new BackgroundRemovalStep(providers, { proxySize: options.proxySize });
+  },
+};
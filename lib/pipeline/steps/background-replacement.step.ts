@@ -0,0 +1,237 @@
+import sharp from 'sharp';
+import { IImageProcessingStep } from '../image-processing-step';
+import { PipelineStepError } from '../pipeline-step-error';
+import type { PipelineContext } from '../pipeline-context';
+import type { StepDefinition, StepServices } from '../step-definition';
+import type { FieldSchema } from '../options-schema';
+import { HEX_COLOR_PATTERN, parseHexColor } from '../utils/color';
+
+export interface GradientStop {
+  /** Hex color (#rgb or #rrggbb) */
+  color: string;
+  /** Position along the gradient, 0 to 1 */
+  offset: number;
+}
+
+/**
+ * What to place behind the cutout
+ */
+export type BackgroundSpec =
+  | { type: 'color'; color: string }
+  | { type: 'linear-gradient'; angle: number; stops: GradientStop[] }
+  | { type: 'radial-gradient'; stops: GradientStop[] }
+  | {
+      type: 'image';
+      /** Conversion whose original image is used as the background */
+      conversionId: string;
+      /** cover fills the canvas (cropping); contain letterboxes with `fill` */
+      fit: 'cover' | 'contain';
+      /** Letterbox color for `contain` */
+      fill?: string;
+    };
+
+export interface BackgroundReplacementOptions {
+  background: BackgroundSpec;
+}
+
+const gradientStopsSchema: FieldSchema = {
+  type: 'array',
+  minItems: 2,
+  maxItems: 8,
+  items: {
+    type: 'object',
+    fields: {
+      color: { type: 'string', pattern: HEX_COLOR_PATTERN },
+      offset: { type: 'number', min: 0, max: 1 },
+    },
+  },
+};
+
+/**
+ * Pipeline step that flattens the cutout onto a solid color, gradient,
+ * or another uploaded image.
+ *
+ * Runs after background removal. The output is opaque, which is what
+ * allows JPEG as the output format.
+ */
+export class BackgroundReplacementStep implements IImageProcessingStep {
+  readonly name = 'background-replacement';
+
+  constructor(
+    private readonly options: BackgroundReplacementOptions,
+    private readonly services: StepServices
+  ) {}
+
+  async process(context: PipelineContext): Promise<Buffer> {
+    const { width, height } = await this.readDimensions(context.image);
+    const background = await this.renderBackground(width, height);
+
+    try {
+      const composited = await sharp(background)
+        .composite([{ input: context.image }])
+        .png()
+        .toBuffer();
+
+      // Drop the (now fully opaque) alpha channel
+      return await sharp(composited).removeAlpha().png().toBuffer();
+    } catch (error) {
+      throw new PipelineStepError(
+        this.name,
+        'BACKGROUND_REPLACEMENT_FAILED',
+        500,
+        'Failed to composite image onto the new background',
+        { cause: error as Error }
+      );
+    }
+  }
+
+  private async readDimensions(image: Buffer): Promise<{ width: number; height: number }> {
+    try {
+      const { width, height } = await sharp(image).metadata();
+      return { width: width ?? 0, height: height ?? 0 };
+    } catch (error) {
+      throw new PipelineStepError(
+        this.name,
+        'BACKGROUND_REPLACEMENT_FAILED',
+        500,
+        'Failed to read image dimensions',
+        { cause: error as Error }
+      );
+    }
+  }
+
+  /**
+   * Render the background as an opaque PNG of the given size
+   */
+  private async renderBackground(width: number, height: number): Promise<Buffer> {
+    const background = this.options.background;
+
+    if (background.type === 'image') {
+      return this.renderImageBackground(background, width, height);
+    }
+
+    try {
+      if (background.type === 'color') {
+        return await sharp({
+          create: { width, height, channels: 3, background: parseHexColor(background.color) },
+        })
+          .png()
+          .toBuffer();
+      }
+
+      return await sharp(Buffer.from(gradientSvg(background, width, height)))
+        .png()
+        .toBuffer();
+    } catch (error) {
+      throw new PipelineStepError(
+        this.name,
+        'BACKGROUND_REPLACEMENT_FAILED',
+        500,
+        `Failed to render ${background.type} background`,
+        { cause: error as Error }
+      );
+    }
+  }
+
+  private async renderImageBackground(
+    background: Extract<BackgroundSpec, { type: 'image' }>,
+    width: number,
+    height: number
+  ): Promise<Buffer> {
+    const source = await this.services.loadConversionImage(background.conversionId);
+
+    if (!source) {
+      throw new PipelineStepError(
+        this.name,
+        'BACKGROUND_IMAGE_NOT_FOUND',
+        400,
+        `Background image "${background.conversionId}" was not found`
+      );
+    }
+
+    try {
+      return await sharp(source)
+        .resize(width, height, {
+          fit: background.fit,
+          background: parseHexColor(background.fill ?? '#ffffff'),
+        })
+        .flatten({ background: parseHexColor(background.fill ?? '#ffffff') })
+        .png()
+        .toBuffer();
+    } catch (error) {
+      throw new PipelineStepError(
+        this.name,
+        'BACKGROUND_IMAGE_INVALID',
+        400,
+        'Background image could not be decoded',
+        { cause: error as Error }
+      );
+    }
+  }
+}
+
+/**
+ * Build an SVG document filled with the requested gradient.
+ * Linear angles follow CSS: 0 points up, 90 points right.
+ */
+function gradientSvg(
+  background: Extract<BackgroundSpec, { type: 'linear-gradient' | 'radial-gradient' }>,
+  width: number,
+  height: number
+): string {
+  const stops = [...background.stops]
+    .sort((a, b) => a.offset - b.offset)
+    .map((stop) => `<stop offset="${stop.offset}" stop-color="${stop.color}"/>`)
+    .join('');
+
+  let gradient: string;
+  if (background.type === 'linear-gradient') {
+    const radians = (background.angle * Math.PI) / 180;
+    const dx = Math.sin(radians) / 2;
+    const dy = -Math.cos(radians) / 2;
+    gradient =
+      `<linearGradient id="bg" x1="${0.5 - dx}" y1="${0.5 - dy}" x2="${0.5 + dx}" y2="${0.5 + dy}">` +
+      `${stops}</linearGradient>`;
+  } else {
+    // Radius reaching the corners of the bounding box
+    gradient = `<radialGradient id="bg" cx="0.5" cy="0.5" r="0.71">${stops}</radialGradient>`;
+  }
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<defs>${gradient}</defs>` +
+    `<rect width="100%" height="100%" fill="url(#bg)"/>` +
+    `</svg>`
+  );
+}
+
+export const backgroundReplacementStepDefinition: StepDefinition<BackgroundReplacementOptions> = {
+  name: 'background-replacement',
+  description: 'Flattens the cutout onto a color, gradient, or uploaded image',
+  optionsSchema: {
+    background: {
+      type: 'union',
+      discriminator: 'type',
+      variants: {
+        color: {
+          color: { type: 'string', pattern: HEX_COLOR_PATTERN },
+        },
+        'linear-gradient': {
+          angle: { type: 'number', min: 0, max: 360 },
+          stops: gradientStopsSchema,
+        },
+        'radial-gradient': {
+          stops: gradientStopsSchema,
+        },
+        image: {
+          conversionId: { type: 'string', maxLength: 64 },
+          fit: { type: 'enum', values: ['cover', 'contain'] },
+          fill: { type: 'string', pattern: HEX_COLOR_PATTERN, optional: true },
+        },
+      },
+    },
+  },
+  defaultOptions: { background: { type: 'color', color: '#ffffff' } },
+  producesOpaqueOutput: true,
+  create: (options, services) => new BackgroundReplacementStep(options, services),
+};
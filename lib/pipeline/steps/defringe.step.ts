@@ -0,0 +1,110 @@
+import sharp from 'sharp';
+import { IImageProcessingStep } from '../image-processing-step';
+import { PipelineStepError } from '../pipeline-step-error';
+import type { PipelineContext } from '../pipeline-context';
+import type { StepDefinition } from '../step-definition';
+import { HEX_COLOR_PATTERN, parseHexColor, toHexColor, type RgbColor } from '../utils/color';
+import { estimateBorderColor } from '../utils/color-key';
+import { KEY_COLOR_METADATA_KEY } from './local-background-removal.step';
+
+/**
+ * Settings for edge color decontamination
+ */
+export interface DefringeOptions {
+  /** How much of the estimated background tint to remove (percent) */
+  strength: number;
+  /** Backdrop color to remove; estimated from the original image when omitted */
+  backgroundColor?: string;
+}
+
+/**
+ * Pipeline step that removes the backdrop's tint from semi-transparent
+ * edge pixels (color decontamination).
+ *
+ * Edge pixels of a cutout blend the subject with the backdrop it was shot
+ * on: color = alpha * subject + (1 - alpha) * backdrop. Once placed on
+ * another background this shows as a green or white fringe. The step
+ * solves for the subject color with the backdrop color and alpha known.
+ * Opaque and fully transparent pixels, and the alpha channel, are left
+ * unchanged.
+ *
+ * The backdrop color is taken from, in order: the `backgroundColor`
+ * option, the key color reported by local background removal, or the
+ * border of the original (pipeline input) image.
+ *
+ * Must run after background removal and before anything that creates new
+ * soft edges (edge feathering) or fills the background.
+ */
+export class DefringeStep implements IImageProcessingStep {
+  readonly name = 'defringe';
+
+  constructor(private readonly options: DefringeOptions) {}
+
+  async process(context: PipelineContext): Promise<Buffer> {
+    try {
+      const backdrop = await this.resolveBackdropColor(context);
+      context.setMetadata('defringeColor', toHexColor(backdrop));
+
+      const { data, info } = await sharp(context.image)
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      const strength = this.options.strength / 100;
+      const channels = [backdrop.r, backdrop.g, backdrop.b];
+
+      for (let offset = 0; offset < data.length; offset += 4) {
+        const alpha = data[offset + 3];
+        if (alpha === 0 || alpha === 255) {
+          continue;
+        }
+
+        const coverage = alpha / 255;
+        for (let channel = 0; channel < 3; channel++) {
+          const observed = data[offset + channel];
+          const subject = (observed - (1 - coverage) * channels[channel]) / coverage;
+          const clamped = Math.min(255, Math.max(0, subject));
+          data[offset + channel] = Math.round(observed + (clamped - observed) * strength);
+        }
+      }
+
+      return await sharp(data, {
+        raw: { width: info.width, height: info.height, channels: 4 },
+      })
+        .png()
+        .toBuffer();
+    } catch (error) {
+      throw new PipelineStepError(
+        this.name,
+        'DEFRINGE_FAILED',
+        500,
+        'Failed to remove edge color fringe',
+        { cause: error as Error }
+      );
+    }
+  }
+
+  private async resolveBackdropColor(context: PipelineContext): Promise<RgbColor> {
+    if (this.options.backgroundColor) {
+      return parseHexColor(this.options.backgroundColor);
+    }
+
+    const keyColor = context.getMetadata<string>(KEY_COLOR_METADATA_KEY);
+    if (keyColor) {
+      return parseHexColor(keyColor);
+    }
+
+    return estimateBorderColor(context.originalImage);
+  }
+}
+
+export const defringeStepDefinition: StepDefinition<DefringeOptions> = {
+  name: 'defringe',
+  description: 'Removes the backdrop color from semi-transparent cutout edges',
+  optionsSchema: {
+    strength: { type: 'number', min: 0, max: 100 },
+    backgroundColor: { type: 'string', pattern: HEX_COLOR_PATTERN, optional: true },
+  },
+  defaultOptions: { strength: 100 },
+  create: (options) => new DefringeStep(options),
+};
@@ -1,18 +1,36 @@
 import sharp from 'sharp';
 import { IImageProcessingStep } from '../image-processing-step';
 import { PipelineStepError } from '../pipeline-step-error';
+import type { PipelineContext } from '../pipeline-context';
+import type { StepDefinition } from '../step-definition';
+import { countFrames } from '../utils/frames';
 
 /**
  * Pipeline step that converts any Sharp-supported input format to PNG.
  * Ensures Remove.bg (JPG/PNG/WebP only) and subsequent steps receive a
  * consistent format. Input formats: JPEG, PNG, WebP, GIF, AVIF, TIFF, SVG, HEIC.
+ *
+ * The EXIF orientation is applied to the pixels (phone photos are often
+ * stored sideways with an orientation tag), since the PNG carries no
+ * metadata and later steps work on raw pixels.
+ *
+ * Animated inputs are reduced to their first frame, with a warning, unless
+ * the pipeline processes animations frame by frame (see
+ * PipelineSpec.animation), in which case each frame arrives as a still.
  */
 export class FormatNormalizationStep implements IImageProcessingStep {
   readonly name = 'format-normalization';
 
-  async process(image: Buffer): Promise<Buffer> {
+  async process(context: PipelineContext): Promise<Buffer> {
     try {
-      return await sharp(image).png().toBuffer();
+      const frameCount = await countFrames(context.image);
+      if (frameCount > 1) {
+        context.addWarning(
+          `Animated image has ${frameCount} frames; only the first frame was processed`
+        );
+      }
+
+      return await sharp(context.image).autoOrient().png().toBuffer();
     } catch (error) {
       throw new PipelineStepError(
         this.name,
@@ -24,3 +42,11 @@ export class FormatNormalizationStep implements IImageProcessingStep {
     }
   }
 }
+
+export const formatNormalizationStepDefinition: StepDefinition = {
+  name: 'format-normalization',
+  description: 'Converts any supported input format to PNG, applying EXIF orientation',
+  optionsSchema: {},
+  defaultOptions: {},
+  create: () => new FormatNormalizationStep(),
+};
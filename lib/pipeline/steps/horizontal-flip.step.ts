@@ -1,6 +1,8 @@
 import sharp from 'sharp';
 import { IImageProcessingStep } from '../image-processing-step';
 import { PipelineStepError } from '../pipeline-step-error';
+import type { PipelineContext } from '../pipeline-context';
+import type { StepDefinition } from '../step-definition';
 
 /**
  * Pipeline step that horizontally flips an image using sharp.
@@ -12,11 +14,11 @@ import { PipelineStepError } from '../pipeline-step-error';
 export class HorizontalFlipStep implements IImageProcessingStep {
   readonly name = 'horizontal-flip';
 
-  async process(image: Buffer): Promise<Buffer> {
+  async process(context: PipelineContext): Promise<Buffer> {
     try {
       // Use sharp's .flop() method for horizontal flip
       // Convert to PNG to ensure consistent output format
-      const flippedImage = await sharp(image)
+      const flippedImage = await sharp(context.image)
         .flop()
         .png()
         .toBuffer();
@@ -33,3 +35,11 @@ export class HorizontalFlipStep implements IImageProcessingStep {
     }
   }
 }
+
+export const horizontalFlipStepDefinition: StepDefinition = {
+  name: 'horizontal-flip',
+  description: 'Mirrors the image horizontally',
+  optionsSchema: {},
+  defaultOptions: {},
+  create: () => new HorizontalFlipStep(),
+};
@@ -0,0 +1,66 @@
+import { IImageProcessingStep } from '../image-processing-step';
+import { PipelineStepError } from '../pipeline-step-error';
+import type { PipelineContext } from '../pipeline-context';
+import type { StepDefinition } from '../step-definition';
+import {
+  DEFAULT_COLOR_KEY_OPTIONS,
+  removeColorKeyedBackground,
+  type ColorKeyOptions,
+} from '../utils/color-key';
+import { HEX_COLOR_PATTERN, toHexColor } from '../utils/color';
+import { recordAlphaMask } from '../utils/alpha';
+import { BG_REMOVAL_PROVIDER_METADATA_KEY } from '../providers/background-removal-provider.interface';
+
+/** Metadata key under which the key color that was removed is reported */
+export const KEY_COLOR_METADATA_KEY = 'keyColor';
+
+/**
+ * Pipeline step that removes solid or chroma-key backgrounds locally.
+ *
+ * Network-free alternative to BackgroundRemovalStep for studio shots: the
+ * background color is estimated from the image border (or given), and an
+ * alpha mask is built from color distance with tolerance/softness, then
+ * cleaned up morphologically. Costs no provider credits. The mask is kept
+ * as a pipeline artifact.
+ */
+export class LocalBackgroundRemovalStep implements IImageProcessingStep {
+  readonly name = 'local-background-removal';
+
+  constructor(private readonly options: ColorKeyOptions) {}
+
+  async process(context: PipelineContext): Promise<Buffer> {
+    try {
+      const { image, keyColor } = await removeColorKeyedBackground(
+        context.image,
+        this.options
+      );
+
+      context.setMetadata(BG_REMOVAL_PROVIDER_METADATA_KEY, 'local');
+      context.setMetadata(KEY_COLOR_METADATA_KEY, toHexColor(keyColor));
+      await recordAlphaMask(context, image);
+      return image;
+    } catch (error) {
+      throw new PipelineStepError(
+        this.name,
+        'LOCAL_BG_REMOVAL_FAILED',
+        500,
+        'Failed to remove background locally',
+        { cause: error as Error }
+      );
+    }
+  }
+}
+
+export const localBackgroundRemovalStepDefinition: StepDefinition<ColorKeyOptions> = {
+  name: 'local-background-removal',
+  description: 'Removes solid or chroma-key backgrounds locally by color distance',
+  optionsSchema: {
+    tolerance: { type: 'number', min: 0, max: 100 },
+    softness: { type: 'number', min: 0, max: 100 },
+    cleanupRadius: { type: 'number', min: 0, max: 10, integer: true },
+    keyColor: { type: 'string', pattern: HEX_COLOR_PATTERN, optional: true },
+  },
+  defaultOptions: DEFAULT_COLOR_KEY_OPTIONS,
+  removesBackground: true,
+  create: (options) => new LocalBackgroundRemovalStep(options),
+};
@@ -0,0 +1,63 @@
+import { IImageProcessingStep } from '../image-processing-step';
+import { PipelineStepError } from '../pipeline-step-error';
+import type { PipelineContext } from '../pipeline-context';
+import { ALPHA_MASK_ARTIFACT, applyAlphaMask, applyMaskDelta } from '../utils/alpha';
+
+/**
+ * Pipeline stage that cuts out the subject with a known mask instead of
+ * calling a background removal provider.
+ *
+ * Used when a finished conversion is re-rendered (e.g. after the user
+ * edited its mask): the pipeline builder puts this stage in place of the
+ * spec's background removal step, so the steps before it recreate the
+ * removal input from the original and the steps after it run as usual.
+ * Not part of the step registry, since its mask comes from storage rather
+ * than from a spec.
+ *
+ * The optional delta (see applyMaskDelta) is applied to the mask first;
+ * the resulting mask is kept as the pipeline's alpha mask artifact.
+ */
+export class MaskCompositingStep implements IImageProcessingStep {
+  readonly name = 'mask-compositing';
+
+  /**
+   * @param mask - Grayscale mask to cut out with (white = subject)
+   * @param delta - Optional user edit to apply to the mask first
+   */
+  constructor(
+    private readonly mask: Buffer,
+    private readonly delta?: Buffer
+  ) {}
+
+  async process(context: PipelineContext): Promise<Buffer> {
+    let mask = this.mask;
+
+    if (this.delta) {
+      try {
+        mask = await applyMaskDelta(mask, this.delta);
+      } catch (error) {
+        throw new PipelineStepError(
+          this.name,
+          'INVALID_MASK_DELTA',
+          400,
+          'Mask edit must be a PNG image with the same dimensions as the mask',
+          { cause: error as Error }
+        );
+      }
+    }
+
+    try {
+      const cutout = await applyAlphaMask(context.image, mask);
+      context.setArtifact(ALPHA_MASK_ARTIFACT, mask);
+      return cutout;
+    } catch (error) {
+      throw new PipelineStepError(
+        this.name,
+        'MASK_COMPOSITING_FAILED',
+        500,
+        'Failed to apply the mask to the image',
+        { cause: error as Error }
+      );
+    }
+  }
+}
@@ -0,0 +1,180 @@
+import sharp from 'sharp';
+import { IImageProcessingStep } from '../image-processing-step';
+import { PipelineStepError } from '../pipeline-step-error';
+import type { PipelineContext } from '../pipeline-context';
+import { readCreditFields, toExifCredits } from '../utils/metadata';
+import {
+  DEFAULT_MATTE_COLOR,
+  DEFAULT_METADATA_POLICY,
+  QUALITY_OUTPUT_FORMATS,
+} from '@/lib/constants/image-formats';
+import type { PipelineOutputSpec } from '@/lib/types/pipeline';
+
+/**
+ * Lossy qualities tried, in order, when the output must fit a size limit;
+ * capped at the output's own quality, so the ladder never raises it
+ */
+const QUALITY_STEPS = [80, 70, 60, 50, 40];
+
+/** Encoder quality used when the spec does not set one */
+const DEFAULT_QUALITY = {
+  webp: 85,
+  avif: 60,
+  jpeg: 90,
+} as const;
+
+/**
+ * Final pipeline stage that encodes the processed image in the requested
+ * output format.
+ *
+ * Appended automatically by the pipeline builder; it is not part of the
+ * step registry because every pipeline ends with exactly one encoding.
+ *
+ * Formats:
+ * - PNG: lossless with alpha
+ * - WebP: lossless by default (keeps cutout edges intact), lossy on request;
+ *   alpha is preserved either way
+ * - AVIF: lossy by default, lossless on request; alpha is preserved
+ * - JPEG: flattened onto the matte color (white by default)
+ * - GIF: palette-based with 1-bit transparency
+ *
+ * Animated images (from frame-by-frame pipelines) keep their frames,
+ * delays and loop count in WebP and GIF output.
+ *
+ * When a size limit is given (e.g. from an output preset), lossy formats
+ * step down in quality (from no higher than the requested one) until the
+ * result fits; lossless output that is
+ * still too large is kept and reported as a warning.
+ *
+ * Metadata follows the output's policy: stripped by default, or the sRGB
+ * color profile, optionally with the artist and copyright fields of the
+ * original's EXIF.
+ */
+export class OutputEncodingStep implements IImageProcessingStep {
+  readonly name = 'output-encoding';
+
+  /**
+   * @param output - Output format and encoder settings
+   * @param maxBytes - Optional upper bound on the encoded size
+   */
+  constructor(
+    private readonly output: PipelineOutputSpec,
+    private readonly maxBytes?: number
+  ) {}
+
+  async process(context: PipelineContext): Promise<Buffer> {
+    const { format } = this.output;
+
+    try {
+      const credits =
+        this.output.metadata === 'copyright'
+          ? toExifCredits(await readCreditFields(context.originalImage))
+          : {};
+      let encoded = await this.encode(context.image, credits);
+
+      if (this.maxBytes === undefined || encoded.length <= this.maxBytes) {
+        return encoded;
+      }
+
+      if (QUALITY_OUTPUT_FORMATS.includes(format)) {
+        for (const quality of this.getQualityLadder()) {
+          encoded = await this.encode(context.image, credits, quality);
+          if (encoded.length <= this.maxBytes) {
+            context.setMetadata('outputQuality', quality);
+            return encoded;
+          }
+        }
+      }
+
+      context.addWarning(
+        `Encoded image is ${encoded.length} bytes, above the ${this.maxBytes} byte limit`
+      );
+      return encoded;
+    } catch (error) {
+      throw new PipelineStepError(
+        this.name,
+        'ENCODING_FAILED',
+        500,
+        `Failed to encode image as ${format.toUpperCase()}`,
+        { cause: error as Error }
+      );
+    }
+  }
+
+  /**
+   * Qualities to step down through after the first encoding was too large:
+   * QUALITY_STEPS capped at the output's quality, without the quality the
+   * first encoding already used when it was lossy
+   */
+  private getQualityLadder(): number[] {
+    const { format, lossless, quality } = this.output;
+    const ceiling = quality ?? DEFAULT_QUALITY[format as keyof typeof DEFAULT_QUALITY];
+    const firstWasLossless =
+      (format === 'webp' && (lossless ?? true)) || (format === 'avif' && lossless === true);
+
+    const ladder = [...new Set(QUALITY_STEPS.map((step) => Math.min(step, ceiling)))];
+    return firstWasLossless ? ladder : ladder.filter((step) => step < ceiling);
+  }
+
+  /**
+   * Encode the image; a quality override forces lossy encoding
+   *
+   * @param credits - EXIF IFD0 entries kept by the `copyright` policy
+   */
+  private async encode(
+    image: Buffer,
+    credits: Record<string, string>,
+    qualityOverride?: number
+  ): Promise<Buffer> {
+    const { format, lossless, matte } = this.output;
+    const encoder = this.applyMetadataPolicy(sharp(image, { animated: true }), credits);
+
+    switch (format) {
+      case 'webp': {
+        const quality = qualityOverride ?? this.output.quality ?? DEFAULT_QUALITY.webp;
+        return qualityOverride === undefined && (lossless ?? true)
+          ? encoder.webp({ lossless: true }).toBuffer()
+          : encoder.webp({ quality, alphaQuality: 100 }).toBuffer();
+      }
+      case 'avif': {
+        const quality = qualityOverride ?? this.output.quality ?? DEFAULT_QUALITY.avif;
+        return qualityOverride === undefined && lossless
+          ? encoder.avif({ lossless: true }).toBuffer()
+          : encoder.avif({ quality }).toBuffer();
+      }
+      case 'jpeg':
+        // JPEG has no alpha; transparent pixels take the matte color
+        return encoder
+          .flatten({ background: matte ?? DEFAULT_MATTE_COLOR })
+          .jpeg({
+            quality: qualityOverride ?? this.output.quality ?? DEFAULT_QUALITY.jpeg,
+            mozjpeg: true,
+          })
+          .toBuffer();
+      case 'png':
+        return encoder.png().toBuffer();
+      case 'gif':
+        return encoder.gif().toBuffer();
+    }
+  }
+
+  /**
+   * Attach the metadata the output's policy keeps (sharp strips all
+   * metadata by default)
+   */
+  private applyMetadataPolicy(
+    encoder: sharp.Sharp,
+    credits: Record<string, string>
+  ): sharp.Sharp {
+    switch (this.output.metadata ?? DEFAULT_METADATA_POLICY) {
+      case 'strip':
+        return encoder;
+      case 'icc':
+        return encoder.withIccProfile('srgb');
+      case 'copyright':
+        return Object.keys(credits).length > 0
+          ? encoder.withIccProfile('srgb').withExif({ IFD0: credits })
+          : encoder.withIccProfile('srgb');
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import sharp from 'sharp';
+import { IImageProcessingStep } from '../image-processing-step';
+import { PipelineStepError } from '../pipeline-step-error';
+import type { PipelineContext } from '../pipeline-context';
+import { findAlphaBoundingBox } from '../utils/alpha';
+import { parseHexColor } from '../utils/color';
+import {
+  OUTPUT_PRESETS,
+  type OutputPresetId,
+} from '@/lib/constants/output-presets';
+
+/** Alpha at or below this is treated as background when locating the subject */
+const SUBJECT_ALPHA_THRESHOLD = 8;
+
+/**
+ * Final framing stage for a marketplace output preset.
+ *
+ * Trims the image to its visible subject, scales it to fit the preset's
+ * fill ratio, and centers it on a canvas of the preset's size and
+ * background color. The output is opaque.
+ *
+ * Appended by the pipeline builder (like OutputEncodingStep) rather than
+ * registered, because a spec selects a preset through `output.preset`.
+ */
+export class PresetFramingStep implements IImageProcessingStep {
+  readonly name = 'preset-framing';
+
+  constructor(private readonly presetId: OutputPresetId) {}
+
+  async process(context: PipelineContext): Promise<Buffer> {
+    const preset = OUTPUT_PRESETS[this.presetId];
+    const background = parseHexColor(preset.backgroundColor);
+
+    try {
+      const box = await findAlphaBoundingBox(context.image, SUBJECT_ALPHA_THRESHOLD);
+      const subject = box
+        ? await sharp(context.image).ensureAlpha().extract(box).png().toBuffer()
+        : context.image;
+
+      if (!box) {
+        context.addWarning('No visible subject found; framing the whole image');
+      }
+
+      const resized = await sharp(subject)
+        .resize(
+          Math.round(preset.width * preset.fillRatio),
+          Math.round(preset.height * preset.fillRatio),
+          { fit: 'inside' }
+        )
+        .png()
+        .toBuffer();
+
+      context.setMetadata('outputPreset', this.presetId);
+
+      return await sharp({
+        create: { width: preset.width, height: preset.height, channels: 3, background },
+      })
+        .composite([{ input: resized, gravity: 'center' }])
+        .png()
+        .toBuffer();
+    } catch (error) {
+      throw new PipelineStepError(
+        this.name,
+        'PRESET_FRAMING_FAILED',
+        500,
+        `Failed to frame image for the "${preset.label}" preset`,
+        { cause: error as Error }
+      );
+    }
+  }
+}
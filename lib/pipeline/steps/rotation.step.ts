@@ -0,0 +1,50 @@
+import sharp from 'sharp';
+import { IImageProcessingStep } from '../image-processing-step';
+import { PipelineStepError } from '../pipeline-step-error';
+import type { PipelineContext } from '../pipeline-context';
+import type { StepDefinition } from '../step-definition';
+
+/** Rotation angles supported by RotationStep (clockwise, in degrees) */
+export const ROTATION_ANGLES = [90, 180, 270] as const;
+
+export type RotationAngle = (typeof ROTATION_ANGLES)[number];
+
+export interface RotationOptions {
+  /** Clockwise rotation in degrees */
+  degrees: RotationAngle;
+}
+
+/**
+ * Pipeline step that rotates an image clockwise by a right angle using sharp.
+ *
+ * Only right angles are supported so the canvas never gains filler pixels.
+ */
+export class RotationStep implements IImageProcessingStep {
+  readonly name = 'rotation';
+
+  constructor(private readonly options: RotationOptions) {}
+
+  async process(context: PipelineContext): Promise<Buffer> {
+    try {
+      return await sharp(context.image).rotate(this.options.degrees).png().toBuffer();
+    } catch (error) {
+      throw new PipelineStepError(
+        this.name,
+        'ROTATION_FAILED',
+        500,
+        `Failed to rotate image by ${this.options.degrees} degrees`,
+        { cause: error as Error }
+      );
+    }
+  }
+}
+
+export const rotationStepDefinition: StepDefinition<RotationOptions> = {
+  name: 'rotation',
+  description: 'Rotates the image clockwise by a right angle',
+  optionsSchema: {
+    degrees: { type: 'enum', values: ROTATION_ANGLES },
+  },
+  defaultOptions: { degrees: 90 },
+  create: (options) => new RotationStep(options),
+};
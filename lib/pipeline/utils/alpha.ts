@@ -0,0 +1,223 @@
+import sharp from 'sharp';
+import type { PipelineContext } from '../pipeline-context';
+
+/**
+ * Pipeline artifact name of the grayscale alpha mask produced by
+ * background removal (see PipelineContext.setArtifact)
+ */
+export const ALPHA_MASK_ARTIFACT = 'alphaMask';
+
+/**
+ * Pixel rectangle within an image
+ */
+export interface BoundingBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Find the bounding box of pixels whose alpha is above a threshold.
+ *
+ * @param image - Encoded image (alpha is assumed opaque if absent)
+ * @param alphaThreshold - Pixels with alpha <= threshold count as transparent
+ * @returns Bounding box of the visible subject, or null if nothing is visible
+ */
+export async function findAlphaBoundingBox(
+  image: Buffer,
+  alphaThreshold: number
+): Promise<BoundingBox | null> {
+  const { data, info } = await sharp(image)
+    .ensureAlpha()
+    .extractChannel('alpha')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height } = info;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      if (data[row + x] > alphaThreshold) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+
+  if (maxX < 0) {
+    return null;
+  }
+
+  return { left: minX, top: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Extract the alpha channel of an image as a grayscale PNG
+ * (white = opaque subject, black = removed background).
+ *
+ * @param image - Encoded image (alpha is assumed opaque if absent)
+ */
+export async function extractAlphaMask(image: Buffer): Promise<Buffer> {
+  return sharp(image)
+    .ensureAlpha()
+    .extractChannel('alpha')
+    .toColourspace('b-w')
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Store the alpha mask of a background-removal cutout as a pipeline
+ * artifact. The mask is a by-product, so extraction failures only add a
+ * warning instead of failing the step.
+ */
+export async function recordAlphaMask(
+  context: PipelineContext,
+  cutout: Buffer
+): Promise<void> {
+  try {
+    context.setArtifact(ALPHA_MASK_ARTIFACT, await extractAlphaMask(cutout));
+  } catch {
+    context.addWarning('Failed to extract the alpha mask from the cutout');
+  }
+}
+
+/** Upper bound on the sharpening applied to upscaled masks */
+const MAX_UPSCALE_SHARPEN_SIGMA = 5;
+
+/**
+ * Scale a grayscale mask up to a larger resolution.
+ *
+ * Upscaling stretches the subject's edge ramp by the scale factor, so the
+ * result is sharpened in proportion to it. Sharpening only acts on
+ * gradients: uniform semi-transparent areas keep their alpha.
+ *
+ * @param mask - Encoded grayscale mask (white = opaque)
+ * @param width - Target width in pixels
+ * @param height - Target height in pixels
+ * @returns Upscaled mask as a grayscale PNG
+ */
+export async function upscaleAlphaMask(
+  mask: Buffer,
+  width: number,
+  height: number
+): Promise<Buffer> {
+  const { width: maskWidth } = await sharp(mask).metadata();
+  if (!maskWidth) {
+    throw new Error('Unable to read mask dimensions');
+  }
+
+  let upscaled = sharp(mask)
+    .extractChannel(0)
+    .resize(width, height, { fit: 'fill', kernel: 'lanczos3' });
+
+  const scale = width / maskWidth;
+  if (scale > 1) {
+    upscaled = upscaled.sharpen({ sigma: Math.min(scale / 2, MAX_UPSCALE_SHARPEN_SIGMA) });
+  }
+
+  return upscaled.toColourspace('b-w').png().toBuffer();
+}
+
+/**
+ * Apply a mask edit to a grayscale mask.
+ *
+ * The delta is an RGBA image with the mask's dimensions: its alpha channel
+ * says how strongly each pixel is edited (0 = untouched), and its red
+ * channel holds the target mask value (255 restores the subject, 0 erases
+ * it). Soft brush edges therefore blend into the existing mask.
+ *
+ * @param mask - Encoded grayscale mask
+ * @param delta - Encoded RGBA edit
+ * @returns Edited mask as a grayscale PNG
+ * @throws {Error} If the delta's dimensions differ from the mask's
+ */
+export async function applyMaskDelta(mask: Buffer, delta: Buffer): Promise<Buffer> {
+  const { data: values, info } = await sharp(mask)
+    .extractChannel(0)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { data: edits, info: deltaInfo } = await sharp(delta)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height } = info;
+  if (deltaInfo.width !== width || deltaInfo.height !== height) {
+    throw new Error(
+      `Mask delta is ${deltaInfo.width}x${deltaInfo.height}, expected ${width}x${height}`
+    );
+  }
+
+  const channels = deltaInfo.channels;
+  for (let i = 0; i < values.length; i++) {
+    const strength = edits[i * channels + channels - 1] / 255;
+    if (strength > 0) {
+      const target = edits[i * channels];
+      values[i] = Math.round(values[i] + (target - values[i]) * strength);
+    }
+  }
+
+  return sharp(values, { raw: { width, height, channels: 1 } })
+    .toColourspace('b-w')
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Use a grayscale mask as an image's alpha channel, replacing any existing
+ * alpha. The mask is stretched to the image's dimensions if they differ
+ * (e.g. when a provider returned a smaller cutout).
+ *
+ * @param image - Encoded image
+ * @param mask - Encoded grayscale mask (white = opaque)
+ * @returns Image with the mask applied, as PNG
+ */
+export async function applyAlphaMask(image: Buffer, mask: Buffer): Promise<Buffer> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height) {
+    throw new Error('Unable to read image dimensions');
+  }
+
+  const alpha = await sharp(mask)
+    .extractChannel(0)
+    .resize(width, height, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  return replaceAlphaChannel(image, alpha);
+}
+
+/**
+ * Replace an image's alpha channel with raw 8-bit values
+ *
+ * @param image - Encoded image
+ * @param alpha - One value per pixel, in the image's dimensions
+ * @returns Image with the new alpha, as PNG
+ */
+export async function replaceAlphaChannel(
+  image: Buffer,
+  alpha: Uint8Array
+): Promise<Buffer> {
+  // sharp removes alpha at the end of a pipeline, so strip it in a pass of its own
+  const { data: color, info } = await sharp(image)
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+
+  return sharp(color, { raw: { width, height, channels } })
+    .joinChannel(Buffer.from(alpha.buffer, alpha.byteOffset, alpha.length), {
+      raw: { width, height, channels: 1 },
+    })
+    .png()
+    .toBuffer();
+}
@@ -0,0 +1,149 @@
+import sharp from 'sharp';
+import { parseHexColor, type RgbColor } from './color';
+import { closeMask, openMask } from './mask-morphology';
+
+/** Largest possible RGB distance (black to white) */
+const MAX_COLOR_DISTANCE = Math.sqrt(3 * 255 * 255);
+
+/**
+ * Settings for color-keyed background removal
+ */
+export interface ColorKeyOptions {
+  /** Distance from the key color (percent of max) treated as fully background */
+  tolerance: number;
+  /** Extra distance (percent of max) over which alpha ramps from 0 to 255 */
+  softness: number;
+  /** Radius in pixels of the open/close cleanup applied to the mask (0 = none) */
+  cleanupRadius: number;
+  /** Background color to key out; estimated from the image border when omitted */
+  keyColor?: string;
+}
+
+/** Keying settings that work well for typical white and green studio backdrops */
+export const DEFAULT_COLOR_KEY_OPTIONS: ColorKeyOptions = {
+  tolerance: 12,
+  softness: 8,
+  cleanupRadius: 1,
+};
+
+/**
+ * Estimate the background color as the per-channel median of the image border.
+ *
+ * The border band is ~2% of the shorter side (at least one pixel). Fully
+ * transparent pixels are ignored. The median keeps a subject touching the
+ * edge from skewing the estimate.
+ *
+ * @param image - Encoded image
+ * @returns Estimated background color
+ */
+export async function estimateBorderColor(image: Buffer): Promise<RgbColor> {
+  const { data, info } = await sharp(image)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height } = info;
+  const band = Math.max(1, Math.round(Math.min(width, height) * 0.02));
+  const histograms = [new Uint32Array(256), new Uint32Array(256), new Uint32Array(256)];
+  let samples = 0;
+
+  for (let y = 0; y < height; y++) {
+    const inVerticalBand = y < band || y >= height - band;
+    for (let x = 0; x < width; x++) {
+      if (!inVerticalBand && x >= band && x < width - band) {
+        // Skip the interior of the row
+        x = width - band - 1;
+        continue;
+      }
+
+      const offset = (y * width + x) * 4;
+      if (data[offset + 3] === 0) {
+        continue;
+      }
+
+      histograms[0][data[offset]]++;
+      histograms[1][data[offset + 1]]++;
+      histograms[2][data[offset + 2]]++;
+      samples++;
+    }
+  }
+
+  if (samples === 0) {
+    // Border is fully transparent; assume white
+    return { r: 255, g: 255, b: 255 };
+  }
+
+  const [r, g, b] = histograms.map((histogram) => histogramMedian(histogram, samples));
+  return { r, g, b };
+}
+
+/**
+ * Remove a solid or chroma-key background by color distance.
+ *
+ * Builds an alpha mask from each pixel's RGB distance to the key color,
+ * ramping from transparent (within tolerance) to opaque (beyond
+ * tolerance + softness), cleans the mask up morphologically, and combines
+ * it with the image's existing alpha.
+ *
+ * @param image - Encoded input image
+ * @param options - Keying settings
+ * @returns Cutout as PNG and the key color that was used
+ */
+export async function removeColorKeyedBackground(
+  image: Buffer,
+  options: ColorKeyOptions
+): Promise<{ image: Buffer; keyColor: RgbColor }> {
+  const keyColor = options.keyColor
+    ? parseHexColor(options.keyColor)
+    : await estimateBorderColor(image);
+
+  const { data, info } = await sharp(image)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height } = info;
+  const pixelCount = width * height;
+  const inner = (options.tolerance / 100) * MAX_COLOR_DISTANCE;
+  const ramp = Math.max(1, (options.softness / 100) * MAX_COLOR_DISTANCE);
+
+  let mask: Uint8Array = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const offset = i * 4;
+    const dr = data[offset] - keyColor.r;
+    const dg = data[offset + 1] - keyColor.g;
+    const db = data[offset + 2] - keyColor.b;
+    const distance = Math.sqrt(dr * dr + dg * dg + db * db);
+    const alpha = (distance - inner) / ramp;
+    mask[i] = alpha <= 0 ? 0 : alpha >= 1 ? 255 : Math.round(alpha * 255);
+  }
+
+  if (options.cleanupRadius > 0) {
+    // Drop background specks, then fill pinholes inside the subject
+    mask = openMask(mask, width, height, options.cleanupRadius);
+    mask = closeMask(mask, width, height, options.cleanupRadius);
+  }
+
+  for (let i = 0; i < pixelCount; i++) {
+    const offset = i * 4 + 3;
+    data[offset] = Math.round((data[offset] * mask[i]) / 255);
+  }
+
+  const cutout = await sharp(data, { raw: { width, height, channels: 4 } })
+    .png()
+    .toBuffer();
+
+  return { image: cutout, keyColor };
+}
+
+function histogramMedian(histogram: Uint32Array, total: number): number {
+  const half = total / 2;
+  let seen = 0;
+  for (let value = 0; value < histogram.length; value++) {
+    seen += histogram[value];
+    if (seen >= half) {
+      return value;
+    }
+  }
+  return histogram.length - 1;
+}
@@ -0,0 +1,42 @@
+/**
+ * Color helpers shared by pipeline steps
+ */
+
+export interface RgbColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/** Matches #rgb or #rrggbb hex colors */
+export const HEX_COLOR_PATTERN = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+
+/**
+ * Parse a #rgb or #rrggbb hex color
+ *
+ * @throws {Error} If the value is not a valid hex color
+ */
+export function parseHexColor(hex: string): RgbColor {
+  if (!HEX_COLOR_PATTERN.test(hex)) {
+    throw new Error(`Invalid hex color "${hex}"`);
+  }
+
+  const digits = hex.length === 4
+    ? hex.slice(1).split('').map((digit) => digit + digit).join('')
+    : hex.slice(1);
+
+  return {
+    r: parseInt(digits.slice(0, 2), 16),
+    g: parseInt(digits.slice(2, 4), 16),
+    b: parseInt(digits.slice(4, 6), 16),
+  };
+}
+
+/**
+ * Format a color as #rrggbb
+ */
+export function toHexColor({ r, g, b }: RgbColor): string {
+  return `#${[r, g, b]
+    .map((channel) => Math.round(channel).toString(16).padStart(2, '0'))
+    .join('')}`;
+}
@@ -0,0 +1,158 @@
+import sharp from 'sharp';
+
+/** Frame delay assumed when an animation does not specify one */
+const DEFAULT_FRAME_DELAY_MS = 100;
+
+/**
+ * Frames of an animated image, decoded for frame-by-frame processing
+ */
+export interface AnimationFrames {
+  /** Fully composited frames as PNG */
+  frames: Buffer[];
+  /** Display time of each frame in milliseconds */
+  delays: number[];
+  /** Number of loops (0 = forever) */
+  loop: number;
+  /** Frame count of the source animation, before sampling */
+  sourceFrameCount: number;
+}
+
+/**
+ * Thrown when an animation's frames hold more pixels than allowed
+ */
+export class AnimationTooLargeError extends Error {
+  constructor(
+    /** Pixels of all frames together */
+    public readonly pixels: number,
+    public readonly maxPixels: number
+  ) {
+    super(`Animation has ${pixels} pixels across its frames (at most ${maxPixels} allowed)`);
+    this.name = 'AnimationTooLargeError';
+
+    // Maintains proper stack trace for where error was thrown (V8 only)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, AnimationTooLargeError);
+    }
+  }
+}
+
+/**
+ * Number of frames in an image (1 for still images)
+ */
+export async function countFrames(image: Buffer): Promise<number> {
+  const { pages } = await sharp(image).metadata();
+  return pages ?? 1;
+}
+
+/**
+ * Decode the frames of an animated image.
+ *
+ * Animations longer than `maxFrames` are sampled evenly; each kept frame
+ * takes over the delays of the frames skipped after it, so the animation
+ * keeps its duration.
+ *
+ * @param image - Encoded animated image (GIF, WebP)
+ * @param maxFrames - Most frames to decode
+ * @param maxPixels - Most pixels of the kept frames together
+ * @returns Frames with their delays, or null for still images
+ * @throws {AnimationTooLargeError} If the kept frames exceed `maxPixels`
+ */
+export async function splitFrames(
+  image: Buffer,
+  maxFrames: number,
+  maxPixels: number
+): Promise<AnimationFrames | null> {
+  const { pages, delay, loop, width, pageHeight, height } = await sharp(image, {
+    animated: true,
+  }).metadata();
+  if (!pages || pages < 2) {
+    return null;
+  }
+
+  const count = Math.min(pages, maxFrames);
+  const pixels = count * (width ?? 0) * (pageHeight ?? height ?? 0);
+  if (pixels > maxPixels) {
+    throw new AnimationTooLargeError(pixels, maxPixels);
+  }
+  const indices = Array.from({ length: count }, (_, i) => Math.floor((i * pages) / count));
+
+  const frames: Buffer[] = [];
+  const delays: number[] = [];
+
+  for (const [i, page] of indices.entries()) {
+    frames.push(await sharp(image, { page }).png().toBuffer());
+
+    const nextPage = indices[i + 1] ?? pages;
+    let frameDelay = 0;
+    for (let skipped = page; skipped < nextPage; skipped++) {
+      frameDelay += delay?.[skipped] ?? DEFAULT_FRAME_DELAY_MS;
+    }
+    delays.push(frameDelay);
+  }
+
+  return { frames, delays, loop: loop ?? 0, sourceFrameCount: pages };
+}
+
+/**
+ * Reassemble processed frames into an animation, encoded as lossless
+ * animated WebP for the output encoding stage to convert.
+ *
+ * Steps such as auto-crop may leave frames with different sizes; every
+ * frame is centered on a transparent canvas of the largest size.
+ *
+ * @param animation - Processed frames with the source delays and loop count
+ * @param maxPixels - Most pixels of all canvases together; they are held
+ *                    in memory uncompressed while encoding
+ * @returns Animated WebP
+ * @throws {AnimationTooLargeError} If the canvases exceed `maxPixels`
+ */
+export async function assembleFrames(
+  animation: AnimationFrames,
+  maxPixels: number
+): Promise<Buffer> {
+  const sizes = await Promise.all(
+    animation.frames.map(async (frame) => {
+      const { width, height } = await sharp(frame).metadata();
+      return { width: width ?? 0, height: height ?? 0 };
+    })
+  );
+  const width = Math.max(...sizes.map((size) => size.width));
+  const height = Math.max(...sizes.map((size) => size.height));
+
+  const pixels = width * height * animation.frames.length;
+  if (pixels > maxPixels) {
+    throw new AnimationTooLargeError(pixels, maxPixels);
+  }
+
+  const pages: Buffer[] = [];
+  for (const [i, frame] of animation.frames.entries()) {
+    const left = Math.floor((width - sizes[i].width) / 2);
+    const top = Math.floor((height - sizes[i].height) / 2);
+
+    pages.push(
+      await sharp(frame)
+        .ensureAlpha()
+        .extend({
+          left,
+          top,
+          right: width - sizes[i].width - left,
+          bottom: height - sizes[i].height - top,
+          background: { r: 0, g: 0, b: 0, alpha: 0 },
+        })
+        .raw()
+        .toBuffer()
+    );
+  }
+
+  return sharp(Buffer.concat(pages), {
+    limitInputPixels: maxPixels,
+    raw: {
+      width,
+      height: height * pages.length,
+      channels: 4,
+      pageHeight: height,
+    },
+  })
+    .webp({ lossless: true, delay: animation.delays, loop: animation.loop })
+    .toBuffer();
+}
@@ -0,0 +1,96 @@
+/**
+ * Morphological operations on single-channel (grayscale) masks.
+ *
+ * Masks are 8-bit buffers of width * height values. Operations use a square
+ * structuring element and are separable (horizontal then vertical pass), so
+ * cost grows linearly with the radius rather than quadratically.
+ */
+
+/**
+ * Grow bright regions by `radius` pixels (max filter)
+ */
+export function dilateMask(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  radius: number
+): Uint8Array {
+  return rankFilter(mask, width, height, radius, Math.max);
+}
+
+/**
+ * Shrink bright regions by `radius` pixels (min filter)
+ */
+export function erodeMask(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  radius: number
+): Uint8Array {
+  return rankFilter(mask, width, height, radius, Math.min);
+}
+
+/**
+ * Erode then dilate: removes isolated specks smaller than the radius
+ */
+export function openMask(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  radius: number
+): Uint8Array {
+  return dilateMask(erodeMask(mask, width, height, radius), width, height, radius);
+}
+
+/**
+ * Dilate then erode: fills pinholes smaller than the radius
+ */
+export function closeMask(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  radius: number
+): Uint8Array {
+  return erodeMask(dilateMask(mask, width, height, radius), width, height, radius);
+}
+
+function rankFilter(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  radius: number,
+  pick: (a: number, b: number) => number
+): Uint8Array {
+  if (radius <= 0) {
+    return mask;
+  }
+
+  const horizontal = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let value = mask[row + x];
+      const from = Math.max(0, x - radius);
+      const to = Math.min(width - 1, x + radius);
+      for (let k = from; k <= to; k++) {
+        value = pick(value, mask[row + k]);
+      }
+      horizontal[row + x] = value;
+    }
+  }
+
+  const result = new Uint8Array(mask.length);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      let value = horizontal[y * width + x];
+      const from = Math.max(0, y - radius);
+      const to = Math.min(height - 1, y + radius);
+      for (let k = from; k <= to; k++) {
+        value = pick(value, horizontal[k * width + x]);
+      }
+      result[y * width + x] = value;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,163 @@
+import sharp from 'sharp';
+
+/**
+ * Credit fields read from an image's EXIF (IFD0 Artist and Copyright)
+ */
+export interface CreditFields {
+  artist?: string;
+  copyright?: string;
+}
+
+/** EXIF IFD0 tags kept by the `copyright` metadata policy */
+const ARTIST_TAG = 0x013b;
+const COPYRIGHT_TAG = 0x8298;
+
+/** EXIF field type of NUL-terminated ASCII strings */
+const ASCII_TYPE = 2;
+
+/** Prefix of EXIF blocks as returned by sharp (before the TIFF header) */
+const EXIF_HEADER = 'Exif\0\0';
+
+/**
+ * Re-encoders for originals whose metadata is stripped, keyed by content
+ * type. Formats without an encoder here (GIF, SVG) carry no EXIF and are
+ * stored unchanged; HEIC cannot be written, so it is stored as JPEG.
+ * `animated` marks encoders that can write every frame of a multi-page
+ * input.
+ */
+const ORIGINAL_ENCODERS: Record<
+  string,
+  { contentType: string; encode: (image: sharp.Sharp) => sharp.Sharp; animated?: boolean }
+> = {
+  'image/jpeg': { contentType: 'image/jpeg', encode: (image) => image.jpeg({ quality: 95 }) },
+  'image/jpg': { contentType: 'image/jpeg', encode: (image) => image.jpeg({ quality: 95 }) },
+  'image/png': { contentType: 'image/png', encode: (image) => image.png() },
+  'image/webp': {
+    contentType: 'image/webp',
+    encode: (image) => image.webp({ quality: 95 }),
+    animated: true,
+  },
+  'image/avif': { contentType: 'image/avif', encode: (image) => image.avif({ quality: 80 }) },
+  'image/tiff': { contentType: 'image/tiff', encode: (image) => image.tiff() },
+  'image/heic': { contentType: 'image/jpeg', encode: (image) => image.jpeg({ quality: 95 }) },
+};
+
+/**
+ * Read the artist and copyright fields from an image's EXIF.
+ *
+ * @param image - Encoded image
+ * @returns Credit fields that are present; empty when the image has no
+ *          EXIF or it cannot be parsed
+ */
+export async function readCreditFields(image: Buffer): Promise<CreditFields> {
+  const { exif } = await sharp(image).metadata();
+  if (!exif) {
+    return {};
+  }
+
+  const tiffStart = exif.toString('latin1', 0, EXIF_HEADER.length) === EXIF_HEADER
+    ? EXIF_HEADER.length
+    : 0;
+  const tiff = exif.subarray(tiffStart);
+  if (tiff.length < 8) {
+    return {};
+  }
+
+  const byteOrder = tiff.toString('latin1', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    return {};
+  }
+  const littleEndian = byteOrder === 'II';
+  const readUInt16 = (offset: number) =>
+    littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+  const readUInt32 = (offset: number) =>
+    littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+
+  const ifdOffset = readUInt32(4);
+  if (ifdOffset + 2 > tiff.length) {
+    return {};
+  }
+
+  const fields: CreditFields = {};
+  const entryCount = readUInt16(ifdOffset);
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+
+    const tag = readUInt16(entry);
+    if ((tag !== ARTIST_TAG && tag !== COPYRIGHT_TAG) || readUInt16(entry + 2) !== ASCII_TYPE) {
+      continue;
+    }
+
+    // Values of up to 4 bytes are stored inline, longer ones at an offset
+    const length = readUInt32(entry + 4);
+    const start = length <= 4 ? entry + 8 : readUInt32(entry + 8);
+    if (start + length > tiff.length) continue;
+
+    const value = tiff.toString('latin1', start, start + length).replace(/\0+$/, '').trim();
+    if (!value) continue;
+
+    if (tag === ARTIST_TAG) {
+      fields.artist = value;
+    } else {
+      fields.copyright = value;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Convert credit fields to the IFD0 entries of sharp's `withExif`
+ */
+export function toExifCredits(credits: CreditFields): Record<string, string> {
+  const entries: Record<string, string> = {};
+  if (credits.artist) entries.Artist = credits.artist;
+  if (credits.copyright) entries.Copyright = credits.copyright;
+  return entries;
+}
+
+/**
+ * Remove privacy-sensitive metadata (GPS location, camera and capture
+ * details) from an original before it is stored.
+ *
+ * The image is re-encoded in its own format with its EXIF orientation
+ * applied to the pixels. Only the ICC profile and the artist/copyright
+ * fields are kept.
+ *
+ * Animated WebP keeps all its frames, delays and loop count (animations
+ * carry no orientation to apply). Other multi-page inputs are stored
+ * unchanged rather than reduced to their first frame.
+ *
+ * @param image - Uploaded original
+ * @param contentType - MIME type of the original
+ * @returns Stripped image and its content type (HEIC becomes JPEG)
+ * @throws {Error} If the image cannot be decoded
+ */
+export async function stripPrivateMetadata(
+  image: Buffer,
+  contentType: string
+): Promise<{ image: Buffer; contentType: string }> {
+  const encoder = ORIGINAL_ENCODERS[contentType];
+  if (!encoder) {
+    return { image, contentType };
+  }
+
+  const { pages } = await sharp(image).metadata();
+  const isMultiPage = (pages ?? 1) > 1;
+  if (isMultiPage && !encoder.animated) {
+    return { image, contentType };
+  }
+
+  const credits = toExifCredits(await readCreditFields(image));
+  const input = isMultiPage
+    ? sharp(image, { animated: true })
+    : sharp(image).autoOrient();
+  let stripped = encoder.encode(input.keepIccProfile());
+  if (Object.keys(credits).length > 0) {
+    stripped = stripped.withExif({ IFD0: credits });
+  }
+
+  return { image: await stripped.toBuffer(), contentType: encoder.contentType };
+}
@@ -0,0 +1,80 @@
+import { prisma } from '@/lib/prisma';
+import type { ConversionEvent, PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import type { TransactionClient } from '@/lib/services/conversion.repository';
+import type { ConversionProgressEvent } from '@/lib/types/pipeline';
+
+/**
+ * Repository for ConversionEvent entity
+ *
+ * Progress events are written by the job runner and read by the SSE route,
+ * which usually run in different server instances, so the database is the
+ * channel between them. Event ids increase monotonically and double as SSE
+ * event ids, letting clients resume a stream with Last-Event-ID.
+ *
+ * Supports optional transaction client for use within Prisma transactions.
+ */
+export class ConversionEventRepository {
+  private db: PrismaClient | TransactionClient;
+
+  /**
+   * Create a new ConversionEventRepository
+   *
+   * @param transactionClient - Optional Prisma transaction client. If provided,
+   *                            all operations use this transaction. Otherwise,
+   *                            operations use the global prisma instance.
+   */
+  constructor(transactionClient?: TransactionClient) {
+    this.db = transactionClient || prisma;
+  }
+
+  /**
+   * Append a progress event to a conversion's stream
+   *
+   * @param conversionId - Conversion UUID
+   * @param event - Event to store
+   * @returns Stored event record
+   */
+  async append(
+    conversionId: string,
+    event: ConversionProgressEvent
+  ): Promise<ConversionEvent> {
+    return await this.db.conversionEvent.create({
+      data: {
+        conversionId,
+        type: event.type,
+        data: event as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /**
+   * List a conversion's events stored after a given event id, oldest first
+   *
+   * @param conversionId - Conversion UUID
+   * @param afterId - Only return events with a greater id (0 for all)
+   * @returns Event records in stream order
+   */
+  async listAfter(conversionId: string, afterId: number): Promise<ConversionEvent[]> {
+    return await this.db.conversionEvent.findMany({
+      where: { conversionId, id: { gt: afterId } },
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  /**
+   * Delete a conversion's events, so a new run starts a fresh stream
+   *
+   * @param conversionId - Conversion UUID
+   */
+  async deleteByConversionId(conversionId: string): Promise<void> {
+    await this.db.conversionEvent.deleteMany({
+      where: { conversionId },
+    });
+  }
+}
+
+/**
+ * Module-level singleton instance for use across the application
+ */
+export const conversionEventRepository = new ConversionEventRepository();
@@ -0,0 +1,353 @@
+import type { ConversionJob } from '@prisma/client';
+import { buildPipeline } from '@/lib/pipeline/pipeline-builder';
+import { parsePipelineSpec } from '@/lib/pipeline/pipeline-spec';
+import { PipelineStepError } from '@/lib/pipeline/pipeline-step-error';
+import {
+  BG_REMOVAL_DETAILS_METADATA_KEY,
+  BG_REMOVAL_PROVIDER_METADATA_KEY,
+} from '@/lib/pipeline/providers/background-removal-provider.interface';
+import { ALPHA_MASK_ARTIFACT } from '@/lib/pipeline/utils/alpha';
+import { conversionRepository } from '@/lib/services/conversion.repository';
+import { conversionJobRepository } from '@/lib/services/conversion-job.repository';
+import { conversionEventRepository } from '@/lib/services/conversion-event.repository';
+import { conversionOutputService } from '@/lib/services/conversion-output.service';
+import { createStepServices } from '@/lib/services/step-services';
+import { blobStorageService } from '@/lib/services/storage/vercel-blob.service';
+import { BlobStorageError } from '@/lib/services/storage/blob-storage-error';
+import { readIntegerEnv } from '@/lib/utils/env';
+import type { BackgroundRemovalDetails, ConversionProgressEvent } from '@/lib/types/pipeline';
+
+/** Attempts per job before a transient failure becomes permanent */
+const MAX_ATTEMPTS = 3;
+
+/** Base delay before a failed job is retried; grows linearly per attempt */
+const RETRY_DELAY_MS = 30_000;
+
+/** Longest a pipeline run may take before it fails with PIPELINE_TIMEOUT */
+const PIPELINE_TIMEOUT_MS = 4 * 60_000;
+
+/** Default time limit of a single step call (steps may set their own) */
+const STEP_TIMEOUT_MS = 60_000;
+
+/**
+ * A running job whose lock is older than this is assumed abandoned (its
+ * runner was killed) and may be claimed again. Must exceed
+ * PIPELINE_TIMEOUT_MS.
+ */
+const STALE_LOCK_MS = 5 * 60_000;
+
+/** Jobs processed per runPending call, to bound the work done per request */
+const DEFAULT_MAX_JOBS = 5;
+
+/** Running jobs allowed across all instances unless CONVERSION_MAX_RUNNING_JOBS is set */
+const DEFAULT_MAX_RUNNING_JOBS = 4;
+
+/** Queued jobs allowed across all instances unless CONVERSION_MAX_QUEUED_JOBS is set */
+const DEFAULT_MAX_QUEUED_JOBS = 100;
+
+/** Retry-After suggested when new work is refused because the queue is full */
+const QUEUE_FULL_RETRY_AFTER_MS = 30_000;
+
+/**
+ * How often a running job checks the job table for a cancellation made on
+ * another instance (cancels on this instance abort it at once)
+ */
+const CANCEL_CHECK_INTERVAL_MS = 2000;
+
+/**
+ * Runs queued conversion jobs: executes each conversion's stored pipeline
+ * spec on its original image and records the result on the conversion.
+ * The alpha mask kept by background removal is stored as its own blob.
+ * Reprocessed conversions run the same way; their new output replaces the
+ * previous one (see ConversionOutputService).
+ *
+ * Runners are started after an upload responds and again while clients
+ * poll pending conversions, so jobs left behind by a restart are picked up.
+ *
+ * Progress (conversion lifecycle plus pipeline step events) is appended to
+ * the conversion's event stream for GET /api/conversions/[id]/events.
+ *
+ * Failure handling:
+ * - PipelineStepError: the conversion fails with the step's code and message
+ *   (steps already retry their own transient errors); this includes
+ *   PIPELINE_TIMEOUT for runs or step calls over their time limit
+ * - Other errors (storage, unexpected): the job is requeued with a delay,
+ *   and the conversion fails once MAX_ATTEMPTS is reached
+ *
+ * Cancellation (POST /api/conversions/[id]/cancel, or deleting the
+ * conversion) aborts the job's pipeline run through its AbortController;
+ * the job and conversion end up `cancelled` and no output is stored (output
+ * uploaded while the cancel landed is discarded).
+ *
+ * Limits shared by all instances through the job table (each runner runs
+ * one job at a time, so these bound background removal calls as well):
+ * - CONVERSION_MAX_RUNNING_JOBS (default 4): runners claim no job while
+ *   this many are running (claims are serialized, see claimNext)
+ * - CONVERSION_MAX_QUEUED_JOBS (default 100): new uploads and reprocess
+ *   requests are refused with BG_REMOVAL_BUSY while this many jobs are
+ *   queued
+ */
+export class ConversionJobRunner {
+  private activeRun: Promise<number> | null = null;
+  /** Abort controllers of the jobs running on this instance, by conversion ID */
+  private readonly runningJobs = new Map<string, AbortController>();
+
+  /**
+   * Process runnable jobs until the queue is empty or `maxJobs` were run.
+   * Concurrent calls in the same process share one run.
+   *
+   * @param maxJobs - Upper bound on jobs processed by this call
+   * @returns Number of jobs processed
+   */
+  runPending(maxJobs: number = DEFAULT_MAX_JOBS): Promise<number> {
+    if (!this.activeRun) {
+      this.activeRun = this.drain(maxJobs).finally(() => {
+        this.activeRun = null;
+      });
+    }
+
+    return this.activeRun;
+  }
+
+  private async drain(maxJobs: number): Promise<number> {
+    let processed = 0;
+
+    while (processed < maxJobs) {
+      const job = await conversionJobRepository.claimNext(
+        new Date(Date.now() - STALE_LOCK_MS),
+        this.limits.running
+      );
+
+      if (!job) {
+        break;
+      }
+
+      await this.runJob(job);
+      processed++;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Abort a conversion's job if it is running on this instance. Jobs on
+   * other instances stop once they see the cancelled job in the job table.
+   *
+   * @param conversionId - Conversion UUID
+   * @returns Whether a running job was aborted
+   */
+  cancel(conversionId: string): boolean {
+    const controller = this.runningJobs.get(conversionId);
+    controller?.abort();
+    return controller !== undefined;
+  }
+
+  /**
+   * Running and queued jobs allowed across all instances
+   */
+  get limits(): { running: number; queued: number } {
+    return {
+      running: readIntegerEnv('CONVERSION_MAX_RUNNING_JOBS', 1) ?? DEFAULT_MAX_RUNNING_JOBS,
+      queued: readIntegerEnv('CONVERSION_MAX_QUEUED_JOBS', 1) ?? DEFAULT_MAX_QUEUED_JOBS,
+    };
+  }
+
+  /**
+   * Queued and running jobs across all instances
+   */
+  getQueueDepth(): Promise<{ queued: number; running: number }> {
+    return conversionJobRepository.countUnfinished();
+  }
+
+  /**
+   * Refuse new work while the queue is at CONVERSION_MAX_QUEUED_JOBS
+   *
+   * @throws {PipelineStepError} BG_REMOVAL_BUSY (503) with a Retry-After
+   *         when the queue is full
+   */
+  async assertQueueHasRoom(): Promise<void> {
+    const { queued } = await conversionJobRepository.countUnfinished();
+    if (queued >= this.limits.queued) {
+      throw new PipelineStepError(
+        'background-removal',
+        'BG_REMOVAL_BUSY',
+        503,
+        'Too many images are waiting to be processed; try again later',
+        { retryAfterMs: QUEUE_FULL_RETRY_AFTER_MS }
+      );
+    }
+  }
+
+  private async runJob(job: ConversionJob): Promise<void> {
+    const conversion = await conversionRepository.findById(job.conversionId);
+
+    if (!conversion) {
+      // Conversion deleted while queued; jobs cascade, so this is a race
+      await conversionJobRepository.complete(job.id);
+      return;
+    }
+
+    const events = new EventRecorder(conversion.id);
+    const controller = new AbortController();
+    this.runningJobs.set(conversion.id, controller);
+    const cancelCheck = setInterval(() => {
+      conversionJobRepository
+        .isCancelled(job.id)
+        .then((cancelled) => cancelled && controller.abort())
+        .catch((error) => {
+          console.error(`Failed to check job ${job.id} for cancellation:`, error);
+        });
+    }, CANCEL_CHECK_INTERVAL_MS);
+
+    try {
+      await conversionRepository.markProcessing(conversion.id);
+      events.record({ type: 'conversion.processing', attempt: job.attempts });
+
+      const spec = parsePipelineSpec(conversion.pipelineSpec);
+      const pipeline = buildPipeline(spec, createStepServices(conversion.userId));
+
+      const original = await blobStorageService.fetchBlob(conversion.originalBlobUrl);
+      const { image, report, metadata, artifacts } = await pipeline.execute(
+        original,
+        (event) => events.record(event),
+        {
+          signal: controller.signal,
+          timeoutMs: PIPELINE_TIMEOUT_MS,
+          stepTimeoutMs: STEP_TIMEOUT_MS,
+        }
+      );
+      const removalProvider = metadata[BG_REMOVAL_PROVIDER_METADATA_KEY];
+      const removalDetails = metadata[BG_REMOVAL_DETAILS_METADATA_KEY] as
+        | BackgroundRemovalDetails
+        | undefined;
+
+      // Skip the upload if a cancellation landed after the last check
+      if (await conversionJobRepository.isCancelled(job.id)) {
+        controller.abort();
+      }
+      controller.signal.throwIfAborted();
+
+      // Only stored while still processing, so a cancel during the upload wins
+      const stored = await conversionOutputService.store(
+        conversion,
+        {
+          spec,
+          image,
+          mask: artifacts[ALPHA_MASK_ARTIFACT] ?? null,
+          report,
+          backgroundRemovalProvider:
+            typeof removalProvider === 'string' ? removalProvider : null,
+          backgroundRemovalDetails: removalDetails ?? null,
+          creditsCharged: removalDetails?.creditsCharged ?? null,
+        },
+        { fromStatuses: ['processing'] }
+      );
+      if (!stored) {
+        controller.abort();
+      }
+      controller.signal.throwIfAborted();
+
+      events.record({ type: 'conversion.succeeded' });
+      await conversionJobRepository.complete(job.id);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        await this.handleCancellation(job);
+      } else {
+        await this.handleFailure(job, error, events);
+      }
+    } finally {
+      clearInterval(cancelCheck);
+      this.runningJobs.delete(conversion.id);
+      await events.flush();
+    }
+  }
+
+  /**
+   * Settle a cancelled job. The cancel request already marked the job and
+   * conversion and recorded `conversion.cancelled`; this only undoes a
+   * `processing` status the run may have set in the meantime.
+   */
+  private async handleCancellation(job: ConversionJob): Promise<void> {
+    await conversionRepository.markCancelled(job.conversionId);
+    await conversionJobRepository.cancel(job.conversionId);
+  }
+
+  private async handleFailure(
+    job: ConversionJob,
+    error: unknown,
+    events: EventRecorder
+  ): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof PipelineStepError) {
+      await this.failConversion(job, { code: error.code, message: error.message }, events);
+      return;
+    }
+
+    if (job.attempts < MAX_ATTEMPTS) {
+      console.warn(
+        `Conversion job ${job.id} failed (attempt ${job.attempts}/${MAX_ATTEMPTS}), retrying:`,
+        error
+      );
+      await conversionJobRepository.requeue(
+        job.id,
+        message,
+        new Date(Date.now() + RETRY_DELAY_MS * job.attempts)
+      );
+      return;
+    }
+
+    console.error(`Conversion job ${job.id} failed permanently:`, error);
+    await this.failConversion(
+      job,
+      error instanceof BlobStorageError
+        ? { code: 'STORAGE_ERROR', message: 'Failed to store image' }
+        : {
+            code: 'INTERNAL_ERROR',
+            message: 'An unexpected error occurred while processing your image',
+          },
+      events
+    );
+  }
+
+  private async failConversion(
+    job: ConversionJob,
+    error: { code: string; message: string },
+    events: EventRecorder
+  ): Promise<void> {
+    await conversionRepository.markFailed(job.conversionId, error);
+    events.record({ type: 'conversion.failed', ...error });
+    await conversionJobRepository.fail(job.id, error.message);
+  }
+}
+
+/**
+ * Appends a conversion's progress events in order without blocking the
+ * pipeline. Failed writes are logged; progress is best-effort and the
+ * conversion status stays authoritative.
+ */
+class EventRecorder {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly conversionId: string) {}
+
+  record(event: ConversionProgressEvent): void {
+    this.pending = this.pending.then(async () => {
+      try {
+        await conversionEventRepository.append(this.conversionId, event);
+      } catch (error) {
+        console.error(`Failed to record ${event.type} event:`, error);
+      }
+    });
+  }
+
+  /** Wait until every recorded event has been written */
+  flush(): Promise<void> {
+    return this.pending;
+  }
+}
+
+/**
+ * Module-level singleton instance for use across the application
+ */
+export const conversionJobRunner = new ConversionJobRunner();
@@ -0,0 +1,227 @@
+import { prisma } from '@/lib/prisma';
+import type { ConversionJob, PrismaClient } from '@prisma/client';
+import type { TransactionClient } from '@/lib/services/conversion.repository';
+
+/**
+ * Key of the Postgres advisory lock that serializes claims made under a
+ * running-job limit (an arbitrary constant, unique within the database)
+ */
+const CLAIM_LOCK_KEY = 4_210_613;
+
+/**
+ * Repository for ConversionJob entity
+ *
+ * The job table is the durable work queue behind asynchronous conversions:
+ * each pending conversion has one job, which job runners claim, run, and
+ * complete. Because jobs live in the database, queued work survives restarts
+ * and runners on different instances never process the same job twice.
+ *
+ * Supports optional transaction client for use within Prisma transactions.
+ */
+export class ConversionJobRepository {
+  private db: PrismaClient | TransactionClient;
+
+  /**
+   * Create a new ConversionJobRepository
+   *
+   * @param transactionClient - Optional Prisma transaction client. If provided,
+   *                            all operations use this transaction. Otherwise,
+   *                            operations use the global prisma instance.
+   */
+  constructor(transactionClient?: TransactionClient) {
+    this.db = transactionClient || prisma;
+  }
+
+  /**
+   * Queue a job for a conversion. A conversion has at most one job, so
+   * queueing it again (reprocessing) resets its finished job.
+   *
+   * @param conversionId - Conversion UUID to process
+   * @returns Created or reset job record
+   */
+  async enqueue(conversionId: string): Promise<ConversionJob> {
+    return await this.db.conversionJob.upsert({
+      where: { conversionId },
+      create: { conversionId },
+      update: {
+        status: 'queued',
+        attempts: 0,
+        runAfter: new Date(),
+        lockedAt: null,
+        lastError: null,
+      },
+    });
+  }
+
+  /**
+   * Claim the next runnable job.
+   *
+   * Runnable jobs are queued jobs whose runAfter has passed, and running jobs
+   * whose lock is older than `staleBefore` (their runner died mid-job). The
+   * claim is a conditional update on the state that was read, so concurrent
+   * runners cannot claim the same job.
+   *
+   * With `maxRunning`, nothing is claimed while that many jobs are already
+   * running (with fresh locks) across all runners. The count and the claim
+   * then run in one transaction holding an advisory lock, so concurrent
+   * runners cannot exceed the limit.
+   *
+   * @param staleBefore - Locks taken before this time are considered abandoned
+   * @param maxRunning - Optional limit on running jobs across all runners
+   * @returns The claimed job (status running, attempts incremented), or null
+   *          if no job is runnable, the limit is reached or another runner
+   *          won the claim
+   */
+  async claimNext(staleBefore: Date, maxRunning?: number): Promise<ConversionJob | null> {
+    if (maxRunning === undefined) {
+      return await this.claim(this.db, staleBefore);
+    }
+
+    const claimWithinLimit = async (db: TransactionClient) => {
+      // Held until the transaction ends, so the next claim sees this one
+      await db.$executeRaw`SELECT pg_advisory_xact_lock(${CLAIM_LOCK_KEY}::bigint)`;
+
+      const running = await db.conversionJob.count({
+        where: { status: 'running', lockedAt: { gte: staleBefore } },
+      });
+      return running < maxRunning ? await this.claim(db, staleBefore) : null;
+    };
+
+    return '$transaction' in this.db
+      ? await this.db.$transaction(claimWithinLimit)
+      : await claimWithinLimit(this.db);
+  }
+
+  /**
+   * Claim the next runnable job, without a running-job limit
+   */
+  private async claim(
+    db: PrismaClient | TransactionClient,
+    staleBefore: Date
+  ): Promise<ConversionJob | null> {
+    const now = new Date();
+    const candidate = await db.conversionJob.findFirst({
+      where: {
+        OR: [
+          { status: 'queued', runAfter: { lte: now } },
+          { status: 'running', lockedAt: { lt: staleBefore } },
+        ],
+      },
+      orderBy: { runAfter: 'asc' },
+    });
+
+    if (!candidate) {
+      return null;
+    }
+
+    const { count } = await db.conversionJob.updateMany({
+      where: {
+        id: candidate.id,
+        status: candidate.status,
+        lockedAt: candidate.lockedAt,
+      },
+      data: {
+        status: 'running',
+        lockedAt: now,
+        attempts: { increment: 1 },
+      },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    return {
+      ...candidate,
+      status: 'running',
+      lockedAt: now,
+      attempts: candidate.attempts + 1,
+    };
+  }
+
+  /**
+   * Count unfinished jobs: queue depth across all runners
+   *
+   * @returns Number of queued jobs (including ones waiting for a retry) and
+   *          of running jobs
+   */
+  async countUnfinished(): Promise<{ queued: number; running: number }> {
+    const [queued, running] = await Promise.all([
+      this.db.conversionJob.count({ where: { status: 'queued' } }),
+      this.db.conversionJob.count({ where: { status: 'running' } }),
+    ]);
+
+    return { queued, running };
+  }
+
+  /**
+   * Mark a job as completed
+   *
+   * @param id - Job UUID
+   */
+  async complete(id: string): Promise<void> {
+    await this.db.conversionJob.update({
+      where: { id },
+      data: { status: 'completed', lockedAt: null },
+    });
+  }
+
+  /**
+   * Put a job back in the queue after a transient failure
+   *
+   * @param id - Job UUID
+   * @param error - Failure message, kept for debugging
+   * @param runAfter - Earliest time the job may be claimed again
+   */
+  async requeue(id: string, error: string, runAfter: Date): Promise<void> {
+    await this.db.conversionJob.update({
+      where: { id },
+      data: { status: 'queued', lockedAt: null, lastError: error, runAfter },
+    });
+  }
+
+  /**
+   * Cancel a conversion's unfinished job, so no runner claims it again.
+   * A runner already running it notices through isCancelled.
+   *
+   * @param conversionId - Conversion UUID
+   */
+  async cancel(conversionId: string): Promise<void> {
+    await this.db.conversionJob.updateMany({
+      where: { conversionId, status: { in: ['queued', 'running'] } },
+      data: { status: 'cancelled', lockedAt: null },
+    });
+  }
+
+  /**
+   * Whether a job was cancelled (or deleted with its conversion) since it
+   * was claimed
+   *
+   * @param id - Job UUID
+   */
+  async isCancelled(id: string): Promise<boolean> {
+    const job = await this.db.conversionJob.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+    return !job || job.status === 'cancelled';
+  }
+
+  /**
+   * Mark a job as permanently failed
+   *
+   * @param id - Job UUID
+   * @param error - Failure message, kept for debugging
+   */
+  async fail(id: string, error: string): Promise<void> {
+    await this.db.conversionJob.update({
+      where: { id },
+      data: { status: 'failed', lockedAt: null, lastError: error },
+    });
+  }
+}
+
+/**
+ * Module-level singleton instance for use across the application
+ */
+export const conversionJobRepository = new ConversionJobRepository();
@@ -0,0 +1,193 @@
+import type { Conversion, ConversionStatus, ConversionVersion } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { parsePipelineSpec } from '@/lib/pipeline/pipeline-spec';
+import { ConversionRepository, conversionRepository } from '@/lib/services/conversion.repository';
+import {
+  ConversionVersionRepository,
+  conversionVersionRepository,
+} from '@/lib/services/conversion-version.repository';
+import { blobStorageService } from '@/lib/services/storage/vercel-blob.service';
+import {
+  OUTPUT_FORMATS,
+  DEFAULT_OUTPUT_FORMAT,
+} from '@/lib/constants/image-formats';
+import { toSafeFileName } from '@/lib/utils/format';
+import type {
+  BackgroundRemovalDetails,
+  PipelineExecutionReport,
+  PipelineSpec,
+} from '@/lib/types/pipeline';
+
+/**
+ * Result of a pipeline run to store on a conversion
+ */
+export interface ConversionOutput {
+  /** Spec that produced the image; decides the stored format */
+  spec: PipelineSpec;
+  image: Buffer;
+  /** Alpha mask kept by background removal, if any */
+  mask: Buffer | null;
+  report: PipelineExecutionReport;
+  backgroundRemovalProvider: string | null;
+  /** What the provider reported about the cutout */
+  backgroundRemovalDetails: BackgroundRemovalDetails | null;
+  /** Provider credits charged by this run; null when it made no provider calls */
+  creditsCharged: number | null;
+}
+
+/** Statuses of conversions that are not being processed */
+const FINISHED_STATUSES: ConversionStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+/**
+ * Stores processed images (and their alpha masks) as conversion versions.
+ *
+ * Shared by the job runner (first runs and reprocessing) and mask
+ * refinement. Each stored output becomes a new ConversionVersion with its
+ * own blobs and is made current; earlier versions are kept until deleted,
+ * so they can be compared and restored. The Conversion record mirrors the
+ * current version, which keeps the image proxies version-agnostic.
+ */
+export class ConversionOutputService {
+  /**
+   * Upload the output as a new version and make it current, provided the
+   * conversion is still in one of `fromStatuses`. Otherwise (e.g. it was
+   * cancelled during the upload) the output is discarded: no version is
+   * kept and the uploaded blobs are deleted.
+   *
+   * @param conversion - Conversion as loaded before the run
+   * @param output - Pipeline result to store
+   * @param options.fromStatuses - Statuses the conversion must still be in
+   * @param options.saveSpec - Store the spec on the conversion too, when it
+   *                           differs from the conversion's (e.g. after edge
+   *                           refinement)
+   * @returns Updated conversion record, or null if the output was discarded
+   * @throws {BlobStorageError} If uploading fails
+   */
+  async store(
+    conversion: Conversion,
+    output: ConversionOutput,
+    options: { fromStatuses: ConversionStatus[]; saveSpec?: boolean }
+  ): Promise<Conversion | null> {
+    const outputFormat = OUTPUT_FORMATS[output.spec.output?.format ?? DEFAULT_OUTPUT_FORMAT];
+
+    // Blobs cannot be overwritten, so later versions get timestamped paths
+    const revision = conversion.processedBlobUrl ? `.${Date.now()}` : '';
+    const basePath = `images/${conversion.id}/${toSafeFileName(conversion.name)}${revision}`;
+
+    const [{ url: processedBlobUrl, size }, maskBlobUrl] = await Promise.all([
+      blobStorageService.upload(
+        output.image,
+        `${basePath}.${outputFormat.extension}`,
+        outputFormat.contentType
+      ),
+      output.mask
+        ? blobStorageService
+            .upload(output.mask, `${basePath}.mask.png`, 'image/png')
+            .then(({ url }) => url)
+        : null,
+    ]);
+
+    const stored = await prisma.$transaction(async (tx) => {
+      const versions = new ConversionVersionRepository(tx);
+      const version = await versions.create({
+        conversionId: conversion.id,
+        processedBlobUrl,
+        maskBlobUrl,
+        contentType: outputFormat.contentType,
+        size,
+        pipelineSpec: output.spec,
+        report: output.report,
+        backgroundRemovalProvider: output.backgroundRemovalProvider,
+        backgroundRemovalDetails: output.backgroundRemovalDetails,
+        creditsCharged: output.creditsCharged,
+      });
+
+      const updated = await new ConversionRepository(tx).markSucceeded(
+        conversion.id,
+        {
+          currentVersionId: version.id,
+          processedBlobUrl,
+          processedContentType: outputFormat.contentType,
+          maskBlobUrl,
+          size,
+          report: output.report,
+          backgroundRemovalProvider: output.backgroundRemovalProvider,
+          backgroundRemovalDetails: output.backgroundRemovalDetails,
+          pipelineSpec: options.saveSpec ? output.spec : undefined,
+        },
+        options.fromStatuses
+      );
+
+      if (!updated) {
+        await versions.deleteById(version.id);
+      }
+      return updated;
+    });
+
+    if (!stored) {
+      await this.deleteBlobs([processedBlobUrl, maskBlobUrl]);
+    }
+    return stored;
+  }
+
+  /**
+   * Make an earlier version current again. The conversion's spec is reset
+   * to the version's, so later edits build on the restored result.
+   *
+   * @param conversion - Conversion the version belongs to
+   * @param version - Version to restore
+   * @returns Updated conversion record, or null if the conversion is being
+   *          processed (a reprocess started meanwhile)
+   */
+  async restoreVersion(
+    conversion: Conversion,
+    version: ConversionVersion
+  ): Promise<Conversion | null> {
+    return await conversionRepository.markSucceeded(
+      conversion.id,
+      {
+        currentVersionId: version.id,
+        processedBlobUrl: version.processedBlobUrl,
+        processedContentType: version.contentType,
+        maskBlobUrl: version.maskBlobUrl,
+        size: version.size,
+        report: version.report as unknown as PipelineExecutionReport,
+        backgroundRemovalProvider: version.backgroundRemovalProvider,
+        backgroundRemovalDetails:
+          (version.backgroundRemovalDetails as BackgroundRemovalDetails | null) ?? null,
+        pipelineSpec: version.pipelineSpec ? parsePipelineSpec(version.pipelineSpec) : undefined,
+      },
+      FINISHED_STATUSES
+    );
+  }
+
+  /**
+   * Delete a version that is not current, with its blobs. Blob deletion
+   * failures are logged only: the version record is already gone.
+   *
+   * @param version - Version to delete
+   */
+  async deleteVersion(version: ConversionVersion): Promise<void> {
+    await conversionVersionRepository.deleteById(version.id);
+    await this.deleteBlobs([version.processedBlobUrl, version.maskBlobUrl]);
+  }
+
+  /**
+   * Delete blobs no record refers to. Failures are logged only.
+   */
+  private async deleteBlobs(urls: Array<string | null>): Promise<void> {
+    for (const url of urls) {
+      if (!url) continue;
+      try {
+        await blobStorageService.delete(url);
+      } catch (error) {
+        console.error('Failed to delete version blob:', error);
+      }
+    }
+  }
+}
+
+/**
+ * Module-level singleton instance for use across the application
+ */
+export const conversionOutputService = new ConversionOutputService();
@@ -0,0 +1,124 @@
+import { prisma } from '@/lib/prisma';
+import type { ConversionVersion, PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import type { TransactionClient } from '@/lib/services/conversion.repository';
+import type {
+  BackgroundRemovalDetails,
+  PipelineExecutionReport,
+  PipelineSpec,
+} from '@/lib/types/pipeline';
+
+/**
+ * Repository for ConversionVersion entity
+ *
+ * Every stored output of a conversion (first run, reprocess, mask edit,
+ * edge refinement) is kept as a numbered version with its own blobs, so
+ * earlier results can be compared and restored. The Conversion record
+ * mirrors the fields of its current version.
+ *
+ * Supports optional transaction client for use within Prisma transactions.
+ */
+export class ConversionVersionRepository {
+  private db: PrismaClient | TransactionClient;
+
+  /**
+   * Create a new ConversionVersionRepository
+   *
+   * @param transactionClient - Optional Prisma transaction client. If provided,
+   *                            all operations use this transaction. Otherwise,
+   *                            operations use the global prisma instance.
+   */
+  constructor(transactionClient?: TransactionClient) {
+    this.db = transactionClient || prisma;
+  }
+
+  /**
+   * Record a new version, numbered after the conversion's latest one.
+   * Locks the conversion's row until the transaction ends, so concurrent
+   * stores for the same conversion are numbered one after the other; call
+   * it within a transaction.
+   *
+   * @param data - Conversion UUID, processed and mask blob URLs, content type,
+   *               size, the spec that produced the output, execution report,
+   *               background removal provider with its reported details, and
+   *               the provider credits the run was charged (null if none
+   *               were reported, e.g. for mask edits)
+   * @returns Created version record
+   */
+  async create(data: {
+    conversionId: string;
+    processedBlobUrl: string;
+    maskBlobUrl: string | null;
+    contentType: string;
+    size: number;
+    pipelineSpec: PipelineSpec;
+    report: PipelineExecutionReport;
+    backgroundRemovalProvider: string | null;
+    backgroundRemovalDetails: BackgroundRemovalDetails | null;
+    creditsCharged: number | null;
+  }): Promise<ConversionVersion> {
+    const { report, pipelineSpec, backgroundRemovalDetails, ...fields } = data;
+
+    await this.db.$queryRaw`SELECT "id" FROM "Conversion" WHERE "id" = ${data.conversionId} FOR UPDATE`;
+
+    const latest = await this.db.conversionVersion.findFirst({
+      where: { conversionId: data.conversionId },
+      orderBy: { number: 'desc' },
+      select: { number: true },
+    });
+
+    return await this.db.conversionVersion.create({
+      data: {
+        ...fields,
+        number: (latest?.number ?? 0) + 1,
+        pipelineSpec: pipelineSpec as unknown as Prisma.InputJsonValue,
+        report: report as unknown as Prisma.InputJsonValue,
+        backgroundRemovalDetails: backgroundRemovalDetails
+          ? (backgroundRemovalDetails as unknown as Prisma.InputJsonValue)
+          : undefined,
+      },
+    });
+  }
+
+  /**
+   * Find a version by ID
+   *
+   * @param id - Version UUID
+   * @returns Version record or null if not found
+   */
+  async findById(id: string): Promise<ConversionVersion | null> {
+    return await this.db.conversionVersion.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find all versions of a conversion, newest first
+   *
+   * @param conversionId - Conversion UUID
+   * @returns Array of version records
+   */
+  async findByConversionId(conversionId: string): Promise<ConversionVersion[]> {
+    return await this.db.conversionVersion.findMany({
+      where: { conversionId },
+      orderBy: { number: 'desc' },
+    });
+  }
+
+  /**
+   * Delete a version by ID (its blobs are deleted by the caller)
+   *
+   * @param id - Version UUID
+   * @throws If version not found
+   */
+  async deleteById(id: string): Promise<void> {
+    await this.db.conversionVersion.delete({
+      where: { id },
+    });
+  }
+}
+
+/**
+ * Module-level singleton instance for use across the application
+ */
+export const conversionVersionRepository = new ConversionVersionRepository();
@@ -1,11 +1,16 @@
 import { prisma } from '@/lib/prisma';
-import type { Conversion, PrismaClient } from '@prisma/client';
-import type { Prisma } from '@prisma/client';
+import type { Conversion, ConversionStatus, PrismaClient } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import type {
+  BackgroundRemovalDetails,
+  PipelineExecutionReport,
+  PipelineSpec,
+} from '@/lib/types/pipeline';
 
 /**
  * Prisma transaction client type
  */
-type TransactionClient = Omit<
+export type TransactionClient = Omit<
   PrismaClient,
   '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
 >;
@@ -34,22 +39,157 @@ export class ConversionRepository {
   /**
    * Create a new conversion record
    * 
-   * @param data - Conversion data (id optional for single UUID, userId, processedBlobUrl, originalBlobUrl, name, size, processedContentType, originalContentType)
+   * Conversions processed by the job runner are created `pending` with their
+   * pipeline spec and no processed image yet; see markSucceeded.
+   * 
+   * @param data - Conversion data (id optional for single UUID, userId, originalBlobUrl, name, processedContentType, originalContentType, pipeline spec, optional processed image fields, execution report and background removal provider)
    * @returns Created conversion record
    */
   async create(data: {
     id?: string;
     userId: string;
-    processedBlobUrl: string;
+    status?: ConversionStatus;
+    processedBlobUrl?: string | null;
     originalBlobUrl: string;
     name: string;
-    size: number;
+    size?: number | null;
     processedContentType: string;
     originalContentType: string;
+    pipelineSpec?: PipelineSpec;
+    report?: PipelineExecutionReport;
+    backgroundRemovalProvider?: string | null;
   }): Promise<Conversion> {
+    const { report, pipelineSpec, ...fields } = data;
+
     return await this.db.conversion.create({
-      data,
+      data: {
+        ...fields,
+        pipelineSpec: pipelineSpec as unknown as Prisma.InputJsonValue | undefined,
+        report: report as unknown as Prisma.InputJsonValue | undefined,
+      },
+    });
+  }
+
+  /**
+   * Mark a conversion as being processed, clearing any earlier error
+   *
+   * @param id - Conversion UUID
+   * @returns Updated conversion record
+   */
+  async markProcessing(id: string): Promise<Conversion> {
+    return await this.db.conversion.update({
+      where: { id },
+      data: { status: 'processing', errorCode: null, errorMessage: null },
+    });
+  }
+
+  /**
+   * Record the processed image of a finished conversion
+   *
+   * @param id - Conversion UUID
+   * @param data - Version the output belongs to, processed blob URL, content
+   *               type and size, alpha mask blob URL (null when no background
+   *               was removed), execution report, background removal provider
+   *               with its reported details, and the spec that produced the image when it differs from
+   *               the stored one (e.g. after edge refinement)
+   * @param fromStatuses - Statuses the conversion must still be in (e.g.
+   *                       `processing` for a job run), so a concurrent
+   *                       cancel or reprocess is not overwritten
+   * @returns Updated conversion record, or null if the conversion is no
+   *          longer in one of `fromStatuses` (or was deleted)
+   */
+  async markSucceeded(
+    id: string,
+    data: {
+      currentVersionId: string;
+      processedBlobUrl: string;
+      processedContentType: string;
+      maskBlobUrl: string | null;
+      size: number;
+      report: PipelineExecutionReport;
+      backgroundRemovalProvider: string | null;
+      backgroundRemovalDetails: BackgroundRemovalDetails | null;
+      pipelineSpec?: PipelineSpec;
+    },
+    fromStatuses: ConversionStatus[]
+  ): Promise<Conversion | null> {
+    const { report, pipelineSpec, backgroundRemovalDetails, ...fields } = data;
+
+    const { count } = await this.db.conversion.updateMany({
+      where: { id, status: { in: fromStatuses } },
+      data: {
+        ...fields,
+        pipelineSpec: pipelineSpec as unknown as Prisma.InputJsonValue | undefined,
+        status: 'succeeded',
+        report: report as unknown as Prisma.InputJsonValue,
+        backgroundRemovalDetails: backgroundRemovalDetails
+          ? (backgroundRemovalDetails as unknown as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+        errorCode: null,
+        errorMessage: null,
+      },
+    });
+
+    return count > 0 ? await this.findById(id) : null;
+  }
+
+  /**
+   * Put a finished conversion back into the `pending` state to be processed
+   * again, optionally with a different pipeline spec. The previous output
+   * stays in place (and servable) until the new run replaces it.
+   *
+   * @param id - Conversion UUID
+   * @param pipelineSpec - Spec for the new run
+   * @returns Updated conversion record, or null if the conversion is not
+   *          finished (it is already pending or processing) or was deleted
+   */
+  async markPendingReprocess(
+    id: string,
+    pipelineSpec: PipelineSpec
+  ): Promise<Conversion | null> {
+    const { count } = await this.db.conversion.updateMany({
+      where: { id, status: { in: ['succeeded', 'failed', 'cancelled'] } },
+      data: {
+        status: 'pending',
+        pipelineSpec: pipelineSpec as unknown as Prisma.InputJsonValue,
+        errorCode: null,
+        errorMessage: null,
+      },
+    });
+
+    return count > 0 ? await this.findById(id) : null;
+  }
+
+  /**
+   * Record why a conversion could not be processed
+   *
+   * @param id - Conversion UUID
+   * @param error - Machine-readable code and human-readable message
+   * @returns Updated conversion record
+   */
+  async markFailed(
+    id: string,
+    error: { code: string; message: string }
+  ): Promise<Conversion> {
+    return await this.db.conversion.update({
+      where: { id },
+      data: { status: 'failed', errorCode: error.code, errorMessage: error.message },
+    });
+  }
+
+  /**
+   * Stop a conversion that has not finished yet
+   *
+   * @param id - Conversion UUID
+   * @returns False if the conversion was not pending or processing (it
+   *          already finished, or no longer exists)
+   */
+  async markCancelled(id: string): Promise<boolean> {
+    const { count } = await this.db.conversion.updateMany({
+      where: { id, status: { in: ['pending', 'processing'] } },
+      data: { status: 'cancelled', errorCode: null, errorMessage: null },
     });
+    return count > 0;
   }
 
   /**
@@ -0,0 +1,211 @@
+import sharp from 'sharp';
+import type { Conversion } from '@prisma/client';
+import { buildPipeline } from '@/lib/pipeline/pipeline-builder';
+import type { PipelineResult } from '@/lib/pipeline/image-processing-pipeline';
+import { parsePipelineSpec } from '@/lib/pipeline/pipeline-spec';
+import { PipelineStepError } from '@/lib/pipeline/pipeline-step-error';
+import { stepRegistry } from '@/lib/pipeline/step-registry';
+import { MaskCompositingStep } from '@/lib/pipeline/steps/mask-compositing.step';
+import { ALPHA_MASK_ARTIFACT } from '@/lib/pipeline/utils/alpha';
+import { conversionOutputService } from '@/lib/services/conversion-output.service';
+import { createStepServices } from '@/lib/services/step-services';
+import { blobStorageService } from '@/lib/services/storage/vercel-blob.service';
+import type { BackgroundRemovalDetails, PipelineSpec } from '@/lib/types/pipeline';
+
+/** Name of the registered edge refinement step */
+const EDGE_REFINEMENT_STEP = 'edge-refinement';
+
+/** Name of the registered defringe step */
+const DEFRINGE_STEP = 'defringe';
+
+/** Longest side of edge refinement previews, to keep slider feedback fast */
+const PREVIEW_MAX_SIZE = 1200;
+
+/**
+ * Rendered preview image
+ */
+export interface RefinementPreview {
+  image: Buffer;
+  contentType: string;
+}
+
+/**
+ * Re-renders finished conversions from their stored mask.
+ *
+ * The conversion's pipeline spec is rebuilt with a MaskCompositingStep in
+ * place of background removal and run on the original image, so steps
+ * before removal recreate its input and steps after it (crop, background
+ * replacement, preset framing, encoding) see the refined cutout. No removal
+ * provider is called, so refinements cost no credits.
+ *
+ * Supports mask edits (brush deltas) and edge refinement settings, which
+ * are previewed without storing anything and then committed.
+ */
+export class MaskRefinementService {
+  /**
+   * Apply a mask edit and store the new processed image and mask
+   *
+   * @param conversion - Succeeded conversion with a stored mask
+   * @param delta - RGBA mask edit (see applyMaskDelta)
+   * @returns Updated conversion record
+   * @throws {PipelineStepError} If the conversion has no mask, the delta is
+   *                             invalid, or a step fails
+   * @throws {BlobStorageError} If loading or storing blobs fails
+   */
+  async refine(conversion: Conversion, delta: Buffer): Promise<Conversion> {
+    const spec = this.getRefinableSpec(conversion);
+    const result = await this.render(conversion, spec, delta);
+    return this.store(conversion, spec, result);
+  }
+
+  /**
+   * Render the conversion with edge refinement settings, without storing it
+   *
+   * @param conversion - Succeeded conversion with a stored mask
+   * @param options - Raw edge-refinement step options
+   * @returns Downscaled preview image
+   * @throws {PipelineStepError} If the conversion has no mask, the options
+   *                             are invalid, or a step fails
+   */
+  async previewEdgeRefinement(
+    conversion: Conversion,
+    options: Record<string, unknown>
+  ): Promise<RefinementPreview> {
+    const spec = withEdgeRefinement(this.getRefinableSpec(conversion), options);
+    const { image } = await this.render(conversion, spec);
+
+    const preview = await sharp(image)
+      .resize(PREVIEW_MAX_SIZE, PREVIEW_MAX_SIZE, {
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .webp({ quality: 90, alphaQuality: 100 })
+      .toBuffer();
+
+    return { image: preview, contentType: 'image/webp' };
+  }
+
+  /**
+   * Store the conversion re-rendered with edge refinement settings. The
+   * settings become part of the conversion's pipeline spec, so later mask
+   * edits keep them.
+   *
+   * @param conversion - Succeeded conversion with a stored mask
+   * @param options - Raw edge-refinement step options
+   * @returns Updated conversion record
+   * @throws {PipelineStepError} If the conversion has no mask, the options
+   *                             are invalid, or a step fails
+   * @throws {BlobStorageError} If loading or storing blobs fails
+   */
+  async applyEdgeRefinement(
+    conversion: Conversion,
+    options: Record<string, unknown>
+  ): Promise<Conversion> {
+    const spec = withEdgeRefinement(this.getRefinableSpec(conversion), options);
+    const result = await this.render(conversion, spec);
+    return this.store(conversion, spec, result, { saveSpec: true });
+  }
+
+  private getRefinableSpec(conversion: Conversion): PipelineSpec {
+    if (conversion.status !== 'succeeded' || !conversion.maskBlobUrl) {
+      throw new PipelineStepError(
+        'mask-compositing',
+        'MASK_NOT_AVAILABLE',
+        409,
+        'Only processed conversions with a background removal step can be refined'
+      );
+    }
+
+    return parsePipelineSpec(conversion.pipelineSpec);
+  }
+
+  /**
+   * Run the spec on the original image with the stored mask (and optional
+   * mask edit) in place of background removal
+   */
+  private async render(
+    conversion: Conversion,
+    spec: PipelineSpec,
+    delta?: Buffer
+  ): Promise<PipelineResult> {
+    const [original, mask] = await Promise.all([
+      blobStorageService.fetchBlob(conversion.originalBlobUrl),
+      blobStorageService.fetchBlob(conversion.maskBlobUrl as string),
+    ]);
+
+    const pipeline = buildPipeline(spec, createStepServices(conversion.userId), {
+      backgroundRemoval: new MaskCompositingStep(mask, delta),
+    });
+
+    return pipeline.execute(original);
+  }
+
+  /**
+   * Store a rendered result as the conversion's new output
+   *
+   * @param options.saveSpec - Store the spec too, when it was changed
+   */
+  private async store(
+    conversion: Conversion,
+    spec: PipelineSpec,
+    { image, report, artifacts }: PipelineResult,
+    options: { saveSpec?: boolean } = {}
+  ): Promise<Conversion> {
+    const stored = await conversionOutputService.store(
+      conversion,
+      {
+        spec,
+        image,
+        mask: artifacts[ALPHA_MASK_ARTIFACT],
+        report,
+        backgroundRemovalProvider: conversion.backgroundRemovalProvider,
+        backgroundRemovalDetails:
+          (conversion.backgroundRemovalDetails as BackgroundRemovalDetails | null) ?? null,
+        // The stored mask stands in for background removal; no credits are spent
+        creditsCharged: null,
+      },
+      // A reprocess started meanwhile replaces the output anyway
+      { ...options, fromStatuses: ['succeeded'] }
+    );
+
+    if (!stored) {
+      throw new PipelineStepError(
+        'mask-compositing',
+        'MASK_NOT_AVAILABLE',
+        409,
+        'The conversion is being processed again; try refining it once it finishes'
+      );
+    }
+    return stored;
+  }
+}
+
+/**
+ * Put an edge-refinement step with the given options right after the
+ * spec's background removal step (and its defringe step, which must see the
+ * unfeathered edges), replacing any existing one
+ *
+ * @throws {PipelineStepError} If the options are invalid
+ */
+function withEdgeRefinement(
+  spec: PipelineSpec,
+  options: Record<string, unknown>
+): PipelineSpec {
+  const refinement = { name: EDGE_REFINEMENT_STEP, options };
+  stepRegistry.resolve(refinement);
+
+  const steps = spec.steps.filter((step) => step.name !== EDGE_REFINEMENT_STEP);
+  const removalIndex = steps.findIndex(
+    (step) => stepRegistry.getDefinition(step.name).removesBackground
+  );
+  const insertIndex =
+    steps[removalIndex + 1]?.name === DEFRINGE_STEP ? removalIndex + 2 : removalIndex + 1;
+  steps.splice(insertIndex, 0, refinement);
+
+  return { ...spec, steps };
+}
+
+/**
+ * Module-level singleton instance for use across the application
+ */
+export const maskRefinementService = new MaskRefinementService();
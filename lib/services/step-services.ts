@@ -0,0 +1,26 @@
+import type { StepServices } from '@/lib/pipeline/step-definition';
+import { conversionRepository } from '@/lib/services/conversion.repository';
+import { blobStorageService } from '@/lib/services/storage/vercel-blob.service';
+
+/**
+ * Create the services pipeline steps may use on behalf of a user
+ *
+ * Image lookups are scoped to the user's own conversions, so a pipeline
+ * spec can never reference another user's uploads.
+ *
+ * @param userId - Owner of the pipeline run
+ * @returns StepServices bound to the user
+ */
+export function createStepServices(userId: string): StepServices {
+  return {
+    async loadConversionImage(conversionId: string): Promise<Buffer | null> {
+      const conversion = await conversionRepository.findById(conversionId);
+
+      if (!conversion || conversion.userId !== userId) {
+        return null;
+      }
+
+      return blobStorageService.fetchBlob(conversion.originalBlobUrl);
+    },
+  };
+}
@@ -11,12 +11,14 @@ export interface IBlobStorageService {
    * @param buffer - File buffer to upload
    * @param pathname - Path in blob storage (e.g., "images/uuid/filename.png")
    * @param contentType - MIME type of the file
+   * @param options.signal - Aborts the upload (e.g. when the client disconnects)
    * @returns Object containing the public blob URL and file size
    */
   upload(
     buffer: Buffer,
     pathname: string,
-    contentType: string
+    contentType: string,
+    options?: { signal?: AbortSignal }
   ): Promise<{ url: string; size: number }>;
 
   /**
@@ -1,11 +1,58 @@
-import { put, del } from '@vercel/blob';
+import {
+  put,
+  del,
+  BlobServiceNotAvailable,
+  BlobServiceRateLimited,
+  BlobUnknownError,
+} from '@vercel/blob';
+import { withRetry, type RetryPolicy } from '@/lib/utils/retry';
 import type { IBlobStorageService } from './blob-storage.interface';
 import { BlobStorageError } from './blob-storage-error';
 
+/**
+ * Non-OK response when fetching a blob's content
+ */
+class BlobResponseError extends Error {
+  constructor(
+    readonly status: number,
+    statusText: string,
+    /** Wait requested by the response's Retry-After header */
+    readonly retryAfterMs?: number
+  ) {
+    super(`Failed to fetch blob: ${statusText}`);
+    this.name = 'BlobResponseError';
+  }
+}
+
+/**
+ * Retries for transient storage failures: the service being unavailable or
+ * rate limited, 5xx/429 responses and network errors (fetch rejects with a
+ * TypeError). The budget keeps proxy requests from hanging on a bad outage.
+ */
+const BLOB_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 5000,
+  budgetMs: 10000,
+  isRetryable: (error) =>
+    error instanceof BlobServiceNotAvailable ||
+    error instanceof BlobServiceRateLimited ||
+    error instanceof BlobUnknownError ||
+    error instanceof TypeError ||
+    (error instanceof BlobResponseError && (error.status === 429 || error.status >= 500)),
+  getRetryAfterMs: (error) => {
+    if (error instanceof BlobServiceRateLimited && error.retryAfter > 0) {
+      return error.retryAfter * 1000;
+    }
+    return error instanceof BlobResponseError ? error.retryAfterMs : undefined;
+  },
+};
+
 /**
  * Vercel Blob storage implementation
  * 
  * Provides file upload/download/delete operations using Vercel Blob.
+ * Transient failures are retried (see BLOB_RETRY_POLICY).
  * Does NOT manage metadata - that's the database's responsibility.
  */
 export class VercelBlobStorageService implements IBlobStorageService {
@@ -23,13 +70,19 @@ export class VercelBlobStorageService implements IBlobStorageService {
   async upload(
     buffer: Buffer,
     pathname: string,
-    contentType: string
+    contentType: string,
+    options: { signal?: AbortSignal } = {}
   ): Promise<{ url: string; size: number }> {
     try {
-      const blob = await put(pathname, buffer, {
-        access: 'public',
-        contentType,
-      });
+      const blob = await withRetry(
+        () =>
+          put(pathname, buffer, {
+            access: 'public',
+            contentType,
+            abortSignal: options.signal,
+          }),
+        { ...BLOB_RETRY_POLICY, signal: options.signal }
+      );
 
       return {
         url: blob.url,
@@ -46,14 +99,21 @@ export class VercelBlobStorageService implements IBlobStorageService {
 
   async fetchBlob(url: string): Promise<Buffer> {
     try {
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch blob: ${response.statusText}`);
-      }
-      
-      const arrayBuffer = await response.arrayBuffer();
-      return Buffer.from(arrayBuffer);
+      return await withRetry(async () => {
+        const response = await fetch(url);
+
+        if (!response.ok) {
+          const retryAfter = Number(response.headers.get('Retry-After'));
+          throw new BlobResponseError(
+            response.status,
+            response.statusText,
+            retryAfter > 0 ? retryAfter * 1000 : undefined
+          );
+        }
+
+        const arrayBuffer = await response.arrayBuffer();
+        return Buffer.from(arrayBuffer);
+      }, BLOB_RETRY_POLICY);
     } catch (error) {
       throw new BlobStorageError(
         'fetch',
@@ -65,7 +125,7 @@ export class VercelBlobStorageService implements IBlobStorageService {
 
   async delete(url: string): Promise<void> {
     try {
-      await del(url);
+      await withRetry(() => del(url), BLOB_RETRY_POLICY);
     } catch (error) {
       throw new BlobStorageError(
         'delete',
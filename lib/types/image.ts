@@ -1,9 +1,21 @@
-import type { Conversion } from '@prisma/client';
+import type { Conversion, ConversionVersion } from '@prisma/client';
+import type {
+  BackgroundRemovalDetails,
+  PipelineExecutionReport,
+  PipelineSpec,
+} from '@/lib/types/pipeline';
+import type { OutputPreset, OutputPresetId } from '@/lib/constants/output-presets';
 
 /**
  * Domain types for image processing and storage
  */
 
+/**
+ * Processing state of a conversion (mirrors the ConversionStatus enum in
+ * the Prisma schema); the processed image exists once `succeeded`
+ */
+export type ConversionStatus = 'pending' | 'processing' | 'succeeded' | 'failed' | 'cancelled';
+
 export interface ProcessedImage {
   /** UUID of the conversion record */
   id: string;
@@ -11,14 +23,79 @@ export interface ProcessedImage {
   url: string;
   /** Proxy URL to access the original image (e.g., /api/conversions/{id}/original) */
   originalUrl: string;
+  /** Proxy URL of the grayscale alpha mask (e.g., /api/conversions/{id}/mask); null if none was produced */
+  maskUrl: string | null;
   /** Display name (filename) for the conversion */
   name: string;
-  /** File size in bytes */
-  size: number;
+  /** Processing state; poll until `succeeded` or `failed` */
+  status: ConversionStatus;
+  /** Why processing failed, when status is `failed` */
+  error: { code: string; message: string } | null;
+  /** Processed file size in bytes; null until processing succeeds */
+  size: number | null;
+  /** Content type of the processed image (follows the pipeline's output format) */
+  contentType: string;
+  /** Current version of the processed image; changes whenever the image does (null until processed) */
+  versionId: string | null;
+  /** Non-fatal issues from the run that produced the image (e.g. only the first frame of an animation was processed) */
+  warnings: string[];
   /** ISO 8601 timestamp of when the image was created */
   createdAt: string;
 }
 
+/**
+ * Full conversion details returned by GET /api/conversions/{id}
+ */
+export interface ConversionDetail extends ProcessedImage {
+  /** How the pipeline ran (timings, retries, per-step image info); null for older conversions */
+  report: PipelineExecutionReport | null;
+  /** Background removal provider that produced the cutout (e.g. "remove-bg") */
+  backgroundRemovalProvider: string | null;
+  /** What the provider reported about the cutout (credits, detected foreground, rate limit); null if nothing was reported */
+  backgroundRemovalDetails: BackgroundRemovalDetails | null;
+}
+
+/**
+ * Stored output of a conversion as listed by GET /api/conversions/{id}/versions
+ */
+export interface ConversionVersionSummary {
+  /** UUID of the version record */
+  id: string;
+  /** Sequence number within the conversion, starting at 1 */
+  number: number;
+  /** Proxy URL of this version's processed image */
+  url: string;
+  /** Whether this is the conversion's current output */
+  isCurrent: boolean;
+  /** Content type of the processed image */
+  contentType: string;
+  /** Processed file size in bytes */
+  size: number;
+  /** Spec that produced this version; null for versions from before specs were stored */
+  pipelineSpec: PipelineSpec | null;
+  /** Provider credits charged by the run that produced this version; null when none were reported */
+  creditsCharged: number | null;
+  /** ISO 8601 timestamp of when the version was created */
+  createdAt: string;
+}
+
+/**
+ * Output preset as listed by GET /api/presets
+ */
+export interface OutputPresetSummary extends OutputPreset {
+  id: OutputPresetId;
+}
+
+/**
+ * Processing load as reported by GET /api/queue
+ */
+export interface QueueStatus {
+  /** Conversion jobs across all instances (queued includes jobs waiting for a retry) */
+  jobs: { queued: number; running: number };
+  /** Limits on running and queued jobs (CONVERSION_MAX_RUNNING_JOBS / CONVERSION_MAX_QUEUED_JOBS) */
+  limits: { running: number; queued: number };
+}
+
 /**
  * Convert a Conversion database record to a ProcessedImage API response
  * 
@@ -32,8 +109,60 @@ export function toProcessedImage(conversion: Conversion): ProcessedImage {
     id: conversion.id,
     url: `/api/conversions/${conversion.id}/processed`,
     originalUrl: `/api/conversions/${conversion.id}/original`,
+    maskUrl: conversion.maskBlobUrl ? `/api/conversions/${conversion.id}/mask` : null,
     name: conversion.name,
+    status: conversion.status,
+    error:
+      conversion.status === 'failed'
+        ? {
+            code: conversion.errorCode ?? 'INTERNAL_ERROR',
+            message: conversion.errorMessage ?? 'Processing failed',
+          }
+        : null,
     size: conversion.size,
+    contentType: conversion.processedContentType,
+    versionId: conversion.currentVersionId,
+    warnings: (conversion.report as PipelineExecutionReport | null)?.warnings ?? [],
     createdAt: conversion.createdAt.toISOString(),
   };
 }
+
+/**
+ * Convert a Conversion database record to a ConversionDetail API response
+ *
+ * @param conversion - Conversion record from database
+ * @returns ConversionDetail including the pipeline execution report
+ */
+export function toConversionDetail(conversion: Conversion): ConversionDetail {
+  return {
+    ...toProcessedImage(conversion),
+    report: (conversion.report as PipelineExecutionReport | null) ?? null,
+    backgroundRemovalProvider: conversion.backgroundRemovalProvider,
+    backgroundRemovalDetails:
+      (conversion.backgroundRemovalDetails as BackgroundRemovalDetails | null) ?? null,
+  };
+}
+
+/**
+ * Convert a ConversionVersion database record to a ConversionVersionSummary API response
+ *
+ * @param version - Version record from database
+ * @param currentVersionId - The conversion's current version
+ * @returns ConversionVersionSummary with a proxy URL for the version's image
+ */
+export function toConversionVersionSummary(
+  version: ConversionVersion,
+  currentVersionId: string | null
+): ConversionVersionSummary {
+  return {
+    id: version.id,
+    number: version.number,
+    url: `/api/conversions/${version.conversionId}/versions/${version.id}/processed`,
+    isCurrent: version.id === currentVersionId,
+    contentType: version.contentType,
+    size: version.size,
+    pipelineSpec: (version.pipelineSpec as PipelineSpec | null) ?? null,
+    creditsCharged: version.creditsCharged,
+    createdAt: version.createdAt.toISOString(),
+  };
+}
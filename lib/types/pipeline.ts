@@ -0,0 +1,167 @@
+import type { MetadataPolicy, OutputFormat } from '@/lib/constants/image-formats';
+import type { OutputPresetId } from '@/lib/constants/output-presets';
+
+/**
+ * Pipeline specification types shared by the upload API and the client.
+ *
+ * A spec is plain JSON: the server resolves each step by name through the
+ * step registry, so new steps never require changes to the upload route.
+ */
+
+export interface PipelineStepSpec {
+  /** Registered step name (e.g. 'background-removal') */
+  name: string;
+  /** Step-specific options, validated when the step is resolved */
+  options?: Record<string, unknown>;
+}
+
+export interface PipelineOutputSpec {
+  /** Encoding of the processed image */
+  format: OutputFormat;
+  /** Encoder quality, 1-100 (WebP, AVIF, JPEG); ignored when lossless */
+  quality?: number;
+  /** Lossless encoding (WebP, AVIF); WebP defaults to lossless */
+  lossless?: boolean;
+  /** Hex color transparent pixels are flattened onto (JPEG) */
+  matte?: string;
+  /** Marketplace preset that frames the result on a fixed canvas */
+  preset?: OutputPresetId;
+  /** Metadata kept on the processed image; defaults to stripping all */
+  metadata?: MetadataPolicy;
+}
+
+/**
+ * Frame-by-frame processing of animated inputs (GIF, WebP). Without it,
+ * only the first frame of an animation is processed.
+ */
+export interface PipelineAnimationSpec {
+  /**
+   * Most frames to process (each one runs every step, e.g. a background
+   * removal call); longer animations are sampled evenly
+   */
+  maxFrames: number;
+}
+
+export interface PipelineSpec {
+  /** Steps to run, in order */
+  steps: PipelineStepSpec[];
+  /** Output encoding; defaults to PNG */
+  output?: PipelineOutputSpec;
+  /** Keep animations, processing each frame (WebP and GIF output only) */
+  animation?: PipelineAnimationSpec;
+}
+
+/** Basic facts about an image buffer, captured around each step */
+export interface ImageInfo {
+  width: number;
+  height: number;
+  /** Encoded format as detected by sharp (e.g. 'png', 'jpeg') */
+  format: string;
+  /** Encoded size in bytes */
+  size: number;
+  hasAlpha: boolean;
+}
+
+/**
+ * Options of the edge-refinement step, which reshapes the cutout's alpha
+ * channel. Also sent by the result view when previewing refinements.
+ */
+export interface EdgeRefinementOptions {
+  /** Pixels to grow (positive) or shrink (negative) the subject's edge by */
+  offset: number;
+  /** Gaussian feather radius in pixels (0 = none) */
+  feather: number;
+  /**
+   * Alpha cutoff for sticker-style edges: alpha above it becomes opaque,
+   * the rest transparent. Omit to keep soft edges.
+   */
+  threshold?: number;
+}
+
+/**
+ * What a background removal provider reported about a cutout, parsed from
+ * its response headers (currently only Remove.bg reports any). Persisted
+ * with each conversion version to reconcile provider credit bills.
+ */
+export interface BackgroundRemovalDetails {
+  /** Credits charged, summed over all calls of the run (e.g. animation frames) */
+  creditsCharged?: number;
+  /** Foreground type the provider detected (e.g. 'person', 'product') */
+  foregroundType?: string;
+  /** Subject's bounding box within the provider's result, in pixels */
+  foregroundBounds?: { left: number; top: number; width: number; height: number };
+  /** Dimensions of the provider's result */
+  resultSize?: { width: number; height: number };
+  /** Provider's rate limit after the last call */
+  rateLimit?: {
+    limit?: number;
+    remaining?: number;
+    /** ISO 8601 timestamp of when the limit resets */
+    resetAt?: string;
+  };
+}
+
+/** Execution record for a single pipeline step */
+export interface StepExecutionReport {
+  name: string;
+  status: 'succeeded' | 'failed';
+  /** ISO 8601 timestamp of when the step started */
+  startedAt: string;
+  durationMs: number;
+  /** Number of retry attempts the step made */
+  retries: number;
+  input: ImageInfo | null;
+  output: ImageInfo | null;
+  /** Step-specific details (e.g. which service handled the request) */
+  metadata: Record<string, unknown>;
+  warnings: string[];
+  /** Failure details when status is 'failed' */
+  error?: { code: string; message: string };
+}
+
+/** Execution record for a whole pipeline run, persisted with the conversion */
+export interface PipelineExecutionReport {
+  /** ISO 8601 timestamp of when the pipeline started */
+  startedAt: string;
+  durationMs: number;
+  steps: StepExecutionReport[];
+  /** Warnings from all steps, in order */
+  warnings: string[];
+}
+
+/**
+ * Progress event emitted while a pipeline runs (see PipelineContext).
+ * `index` is the zero-based position of the step in the run.
+ */
+export type PipelineEvent =
+  | { type: 'pipeline.started'; steps: string[] }
+  | { type: 'step.started'; step: string; index: number }
+  | { type: 'step.retry'; step: string; index: number; attempt: number; reason?: string }
+  | { type: 'step.completed'; step: string; index: number; durationMs: number }
+  | { type: 'step.failed'; step: string; index: number; code: string; message: string }
+  | { type: 'pipeline.completed'; durationMs: number };
+
+/** Receives pipeline progress events as they happen */
+export type PipelineEventListener = (event: PipelineEvent) => void;
+
+/**
+ * Event streamed to clients for a conversion: pipeline progress plus the
+ * conversion's own lifecycle. `conversion.succeeded`, `conversion.failed`
+ * and `conversion.cancelled` are terminal.
+ */
+export type ConversionProgressEvent =
+  | PipelineEvent
+  | { type: 'conversion.processing'; attempt: number }
+  | { type: 'conversion.succeeded' }
+  | { type: 'conversion.failed'; code: string; message: string }
+  | { type: 'conversion.cancelled' };
+
+/** Client-side progress of one pipeline step, built from streamed events */
+export interface StepProgress {
+  name: string;
+  status: 'pending' | 'running' | 'succeeded' | 'failed';
+  /** Retry attempts seen so far */
+  retries: number;
+  /** Set once the step has completed */
+  durationMs: number | null;
+}
@@ -45,3 +45,21 @@ export function errorResponse(
     { status }
   );
 }
+
+/**
+ * Add a Retry-After header (in whole seconds) to a response, for errors
+ * that tell clients to come back later (e.g. BG_REMOVAL_BUSY).
+ *
+ * @param response - Response to annotate
+ * @param retryAfterMs - Suggested wait; no header is added when undefined
+ * @returns The same response
+ */
+export function withRetryAfter<T extends NextResponse>(
+  response: T,
+  retryAfterMs: number | undefined
+): T {
+  if (retryAfterMs !== undefined) {
+    response.headers.set('Retry-After', String(Math.max(1, Math.ceil(retryAfterMs / 1000))));
+  }
+  return response;
+}
@@ -0,0 +1,135 @@
+/**
+ * State of a circuit breaker:
+ * - closed: calls pass through
+ * - open: calls fail fast until the reset timeout has passed
+ * - half-open: a single probe call is let through to test the service
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Configuration for CircuitBreaker
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a probe is let through */
+  resetTimeoutMs: number;
+  /**
+   * Whether an error counts as a failure of the service. Other errors
+   * (e.g. invalid input) do not open the circuit.
+   */
+  isFailure: (error: unknown) => boolean;
+  /**
+   * Whether an error proves the service answered (e.g. it rejected the
+   * input), so a probe failing with it still closes the circuit. Errors
+   * that are neither (e.g. an aborted call) leave the circuit half-open.
+   */
+  isResponse?: (error: unknown) => boolean;
+}
+
+/**
+ * Thrown instead of calling the service while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    public readonly circuit: string,
+    /** Time until a probe will be let through */
+    public readonly retryAfterMs: number
+  ) {
+    super(`Circuit "${circuit}" is open`);
+    this.name = 'CircuitOpenError';
+
+    // Maintains proper stack trace for where error was thrown (V8 only)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, CircuitOpenError);
+    }
+  }
+}
+
+/**
+ * Circuit breaker for calls to an external service.
+ *
+ * Opens after `failureThreshold` consecutive failures, so callers fail fast
+ * with CircuitOpenError instead of waiting on a service that is down. Once
+ * `resetTimeoutMs` has passed, the next call is let through as a probe
+ * (half-open): success (or an error the service answered with) closes the
+ * circuit, failure opens it again, and any other error (e.g. an abort)
+ * leaves it half-open for the next call to probe. Calls made while the
+ * probe is in flight still fail fast.
+ *
+ * State is kept in memory, per server instance.
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+
+  constructor(
+    readonly name: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return Date.now() - this.openedAt >= this.options.resetTimeoutMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Run a call through the circuit
+   *
+   * @param operation - Call to the service
+   * @returns The call's result
+   * @throws {CircuitOpenError} If the circuit is open (or half-open with a probe in flight)
+   * @throws The call's error otherwise
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === 'open' || (state === 'half-open' && this.probeInFlight)) {
+      throw new CircuitOpenError(this.name, this.getRetryAfterMs());
+    }
+
+    const isProbe = state === 'half-open';
+    if (isProbe) {
+      this.probeInFlight = true;
+    }
+
+    try {
+      const result = await operation();
+      this.close();
+      return result;
+    } catch (error) {
+      if (this.options.isFailure(error)) {
+        this.recordFailure(isProbe);
+      } else if (isProbe && this.options.isResponse?.(error)) {
+        // The service answered, so it is reachable again
+        this.close();
+      }
+      throw error;
+    } finally {
+      if (isProbe) {
+        this.probeInFlight = false;
+      }
+    }
+  }
+
+  private recordFailure(isProbe: boolean): void {
+    this.consecutiveFailures++;
+    if (isProbe || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+  }
+
+  private close(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+  }
+
+  private getRetryAfterMs(): number {
+    if (this.openedAt === null) {
+      return 0;
+    }
+    return Math.max(0, this.openedAt + this.options.resetTimeoutMs - Date.now());
+  }
+}
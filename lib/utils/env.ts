@@ -0,0 +1,17 @@
+/**
+ * Read an integer setting from an environment variable
+ *
+ * @param variable - Environment variable name
+ * @param min - Smallest accepted value
+ * @returns The value, or undefined when the variable is unset or not an
+ *          integer of at least `min`
+ */
+export function readIntegerEnv(variable: string, min: number): number | undefined {
+  const raw = process.env[variable]?.trim();
+  if (!raw) {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= min ? value : undefined;
+}
@@ -14,6 +14,13 @@ export function getExtension(filename: string): string {
   return lastDot === -1 ? "" : filename.slice(lastDot);
 }
 
+/**
+ * Replaces characters that are unsafe in storage paths with underscores
+ */
+export function toSafeFileName(filename: string): string {
+  return filename.replace(/[^a-zA-Z0-9.-]/g, "_");
+}
+
 export function formatFileSize(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -5,20 +5,44 @@ import {
   authorizeConversionAccess,
   maybeClearGuestCookie,
 } from "@/lib/utils/authorize-conversion";
+import { PipelineStepError } from "@/lib/pipeline/pipeline-step-error";
+import { getBaseName } from "@/lib/utils/format";
 import type { Conversion } from "@prisma/client";
 
+/**
+ * Re-encoded variant of a stored image (e.g. framed for an output preset)
+ */
+export interface TransformedImage {
+  image: Buffer;
+  contentType: string;
+  /** File extension (without dot) used for the download filename */
+  extension: string;
+}
+
 /**
  * Configuration for serving an image through the authenticated proxy
  */
 interface ImageProxyConfig {
-  /** Function to extract the blob URL from the conversion record */
-  getBlobUrl: (conversion: Conversion) => string;
+  /** Function to extract the blob URL from the conversion record (null if not stored yet) */
+  getBlobUrl: (conversion: Conversion) => string | null;
   /** Function to extract the content type from the conversion record */
   getContentType: (conversion: Conversion) => string;
   /** Function to calculate content length (from conversion or buffer) */
   getContentLength: (conversion: Conversion, buffer: Buffer) => number;
+  /**
+   * Optional error for conversions without a blob URL (defaults to
+   * 404 IMAGE_NOT_READY, for images that exist once processing succeeds)
+   */
+  getMissingError?: (conversion: Conversion) => {
+    message: string;
+    code: string;
+  };
+  /** Optional filename for the response (defaults to the conversion name) */
+  getFileName?: (conversion: Conversion) => string;
   /** Error message prefix for logging */
   errorContext: string;
+  /** Optional transform applied to the stored image before it is served */
+  transform?: (image: Buffer) => Promise<TransformedImage>;
 }
 
 /**
@@ -28,7 +52,8 @@ interface ImageProxyConfig {
  * 1. Authenticate user (handles merge transparently via authorizeConversionAccess)
  * 2. Query conversion record and verify ownership
  * 3. Fetch blob content from Vercel Blob server-side
- * 4. Stream image bytes to client with appropriate headers
+ * 4. Apply the optional transform (e.g. an output preset)
+ * 5. Stream image bytes to client with appropriate headers
  *
  * @param request - The incoming request
  * @param id - The conversion/image ID
@@ -49,27 +74,53 @@ export async function serveImageProxy(
     }
 
     // Fetch blob content from storage using config
-    const blobUrl = config.getBlobUrl(authResult.conversion);
-    const imageBuffer = await blobStorageService.fetchBlob(blobUrl);
+    const { conversion } = authResult;
+    const blobUrl = config.getBlobUrl(conversion);
+
+    // Processed images only exist once the conversion job has succeeded
+    if (!blobUrl) {
+      const { message, code } = config.getMissingError?.(conversion) ?? {
+        message: "Image is not available yet",
+        code: "IMAGE_NOT_READY",
+      };
+      return errorResponse(message, code, 404);
+    }
+
+    const storedBuffer = await blobStorageService.fetchBlob(blobUrl);
+
+    const transformed = config.transform
+      ? await config.transform(storedBuffer)
+      : null;
+    const imageBuffer = transformed?.image ?? storedBuffer;
 
     // Create response with image data
     const response = new NextResponse(new Uint8Array(imageBuffer), {
       status: 200,
       headers: {
-        "Content-Type": config.getContentType(authResult.conversion),
-        "Content-Length": config
-          .getContentLength(authResult.conversion, imageBuffer)
-          .toString(),
+        "Content-Type":
+          transformed?.contentType ?? config.getContentType(conversion),
+        "Content-Length": (transformed
+          ? imageBuffer.length
+          : config.getContentLength(conversion, imageBuffer)
+        ).toString(),
         // Cache locally but not on CDN (private content)
         "Cache-Control": "private, max-age=3600",
         // Optional: Add filename for downloads
-        "Content-Disposition": `inline; filename="${authResult.conversion.name}"`,
+        "Content-Disposition": `inline; filename="${
+          transformed
+            ? `${getBaseName(conversion.name)}.${transformed.extension}`
+            : (config.getFileName?.(conversion) ?? conversion.name)
+        }"`,
       },
     });
 
     // Clear guest cookie if merge happened
     return maybeClearGuestCookie(response, authResult.shouldClearGuestCookie);
   } catch (error) {
+    if (error instanceof PipelineStepError) {
+      return errorResponse(error.message, error.code, error.statusCode);
+    }
+
     console.error(`${config.errorContext}:`, error);
 
     // Return JSON error response
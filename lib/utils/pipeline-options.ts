@@ -0,0 +1,328 @@
+/**
+ * Client-side pipeline options and their mapping to a PipelineSpec
+ */
+
+import {
+  ANIMATED_OUTPUT_FORMATS,
+  DEFAULT_ANIMATION_MAX_FRAMES,
+  DEFAULT_METADATA_POLICY,
+  LOSSLESS_CAPABLE_FORMATS,
+  OPAQUE_OUTPUT_FORMATS,
+  QUALITY_OUTPUT_FORMATS,
+  type MetadataPolicy,
+  type OutputFormat,
+} from "@/lib/constants/image-formats";
+import {
+  OUTPUT_PRESETS,
+  type OutputPresetId,
+} from "@/lib/constants/output-presets";
+import type {
+  PipelineOutputSpec,
+  PipelineSpec,
+  PipelineStepSpec,
+} from "@/lib/types/pipeline";
+import type { RemoveBgOptions } from "@/lib/pipeline/providers/remove-bg.provider";
+
+/** Rotation choices offered in the UI (0 = no rotation) */
+export const ROTATION_CHOICES = [0, 90, 180, 270] as const;
+
+/** Background removal methods offered in the UI */
+export const BACKGROUND_REMOVAL_METHODS = {
+  remote: "Remove.bg",
+  "remote-with-fallback": "Remove.bg, local fallback",
+  local: "Local (solid / green screen)",
+} as const;
+
+export type BackgroundRemovalMethod = keyof typeof BACKGROUND_REMOVAL_METHODS;
+
+/** Longer side (px) of the copy sent to providers in full-resolution mode */
+export const REMOVAL_PROXY_SIZE = 1024;
+
+/** Remove.bg foreground type hints offered in the UI */
+export const FOREGROUND_TYPES = {
+  auto: "Auto-detect",
+  person: "Person",
+  product: "Product",
+  car: "Car",
+} as const;
+
+export type ForegroundType = keyof typeof FOREGROUND_TYPES;
+
+/** Remove.bg shadows offered in the UI */
+export const SHADOW_CHOICES = {
+  none: "None",
+  drop: "Drop shadow",
+  "3D": "AI shadow (3D)",
+  car: "Car shadow",
+} as const;
+
+export type ShadowChoice = keyof typeof SHADOW_CHOICES;
+
+/** Remove.bg subject sizes offered in the UI, in percent of the image */
+export const SUBJECT_SCALE_CHOICES = [90, 80, 70, 60, 50] as const;
+
+/** Backgrounds offered in the UI; "transparent" keeps the cutout as-is */
+export const BACKGROUND_CHOICES = {
+  transparent: "Transparent",
+  color: "Solid color",
+  gradient: "Gradient",
+} as const;
+
+export type BackgroundChoice = keyof typeof BACKGROUND_CHOICES;
+
+export interface PipelineOptions {
+  /** How the background is removed */
+  backgroundRemoval: BackgroundRemovalMethod;
+  /**
+   * Send providers a downscaled proxy and apply the returned mask to the
+   * full-resolution image (remote methods only)
+   */
+  fullResolution: boolean;
+  /** Remove.bg foreground type hint */
+  foregroundType: ForegroundType;
+  /** Have Remove.bg crop off empty space around the subject */
+  removeBgCrop: boolean;
+  /** Margin around the Remove.bg crop, as a percent of the subject */
+  removeBgCropMargin: number;
+  /** Subject size in percent of the image (centered); null keeps the original */
+  subjectScale: (typeof SUBJECT_SCALE_CHOICES)[number] | null;
+  /** Shadow Remove.bg adds under the subject */
+  shadow: ShadowChoice;
+  /** Remove the backdrop's color from semi-transparent cutout edges */
+  defringe: boolean;
+  /** Crop to the subject and re-pad by a margin */
+  autoCrop: boolean;
+  /** Auto-crop margin as a percent of the subject's longer side */
+  cropPaddingPercent: number;
+  /** Center the cropped subject on a square canvas */
+  cropSquare: boolean;
+  /** Mirror the image horizontally after background removal */
+  flip: boolean;
+  /** Clockwise rotation in degrees (0 = none) */
+  rotation: (typeof ROTATION_CHOICES)[number];
+  /** What to place behind the cutout */
+  background: BackgroundChoice;
+  /** Hex color for the solid background */
+  backgroundColor: string;
+  /** Top and bottom hex colors for the gradient background */
+  gradientColors: [string, string];
+  /** Encoding of the processed image */
+  outputFormat: OutputFormat;
+  /** Lossless encoding for formats that support it (WebP, AVIF) */
+  outputLossless: boolean;
+  /** Encoder quality, 1-100, for lossy formats */
+  outputQuality: number;
+  /** Hex color behind transparent areas for formats without alpha (JPEG) */
+  matteColor: string;
+  /** Marketplace preset to frame the result for; overrides outputFormat */
+  outputPreset: OutputPresetId | null;
+  /** Metadata kept on the processed image */
+  outputMetadata: MetadataPolicy;
+  /** Process animated inputs frame by frame (WebP and GIF output) */
+  keepAnimation: boolean;
+  /** Most frames to process when keeping animation */
+  maxFrames: number;
+}
+
+/** Matches the server's default pipeline */
+export const DEFAULT_PIPELINE_OPTIONS: PipelineOptions = {
+  backgroundRemoval: "remote",
+  fullResolution: false,
+  foregroundType: "auto",
+  removeBgCrop: false,
+  removeBgCropMargin: 0,
+  subjectScale: null,
+  shadow: "none",
+  defringe: false,
+  autoCrop: false,
+  cropPaddingPercent: 5,
+  cropSquare: false,
+  flip: true,
+  rotation: 0,
+  background: "transparent",
+  backgroundColor: "#ffffff",
+  gradientColors: ["#ffffff", "#d1d5db"],
+  outputFormat: "png",
+  outputLossless: false,
+  outputQuality: 85,
+  matteColor: "#ffffff",
+  outputPreset: null,
+  outputMetadata: DEFAULT_METADATA_POLICY,
+  keepAnimation: false,
+  maxFrames: DEFAULT_ANIMATION_MAX_FRAMES,
+};
+
+/**
+ * Build the pipeline spec sent with an upload from UI options
+ */
+export function toPipelineSpec(options: PipelineOptions): PipelineSpec {
+  const steps: PipelineStepSpec[] = [
+    { name: "format-normalization" },
+    toRemovalStep(options),
+  ];
+
+  // Before anything that adds new soft edges or fills the background
+  if (options.defringe) {
+    steps.push({ name: "defringe" });
+  }
+
+  // Crop before any geometric transforms so framing is consistent
+  if (options.autoCrop) {
+    steps.push({
+      name: "auto-crop",
+      options: {
+        padding: options.cropPaddingPercent,
+        paddingUnit: "percent",
+        square: options.cropSquare,
+      },
+    });
+  }
+
+  if (options.rotation !== 0) {
+    steps.push({ name: "rotation", options: { degrees: options.rotation } });
+  }
+
+  if (options.flip) {
+    steps.push({ name: "horizontal-flip" });
+  }
+
+  if (options.background === "color") {
+    steps.push({
+      name: "background-replacement",
+      options: {
+        background: { type: "color", color: options.backgroundColor },
+      },
+    });
+  } else if (options.background === "gradient") {
+    const [top, bottom] = options.gradientColors;
+    steps.push({
+      name: "background-replacement",
+      options: {
+        background: {
+          type: "linear-gradient",
+          angle: 180,
+          stops: [
+            { color: top, offset: 0 },
+            { color: bottom, offset: 1 },
+          ],
+        },
+      },
+    });
+  }
+
+  if (options.outputPreset) {
+    const preset = options.outputPreset;
+    return {
+      steps,
+      output: withMetadataPolicy(
+        { format: OUTPUT_PRESETS[preset].format, preset },
+        options,
+      ),
+    };
+  }
+
+  const output = withMetadataPolicy(toOutputSpec(options), options);
+
+  if (
+    options.keepAnimation &&
+    ANIMATED_OUTPUT_FORMATS.includes(options.outputFormat)
+  ) {
+    return { steps, output, animation: { maxFrames: options.maxFrames } };
+  }
+
+  return { steps, output };
+}
+
+function toOutputSpec(options: PipelineOptions): PipelineOutputSpec {
+  const format = options.outputFormat;
+  const output: PipelineOutputSpec = { format };
+
+  if (LOSSLESS_CAPABLE_FORMATS.includes(format)) {
+    output.lossless = options.outputLossless;
+  }
+
+  if (QUALITY_OUTPUT_FORMATS.includes(format) && !output.lossless) {
+    output.quality = options.outputQuality;
+  }
+
+  // Opaque backgrounds already replace transparency
+  if (
+    OPAQUE_OUTPUT_FORMATS.includes(format) &&
+    options.background === "transparent"
+  ) {
+    output.matte = options.matteColor;
+  }
+
+  return output;
+}
+
+function withMetadataPolicy(
+  output: PipelineOutputSpec,
+  options: PipelineOptions,
+): PipelineOutputSpec {
+  return options.outputMetadata === DEFAULT_METADATA_POLICY
+    ? output
+    : { ...output, metadata: options.outputMetadata };
+}
+
+/**
+ * Whether the Remove.bg options crop, move or add to the subject, which
+ * rules out full-resolution mode (its mask must match the input)
+ */
+export function reframesSubject(options: PipelineOptions): boolean {
+  return (
+    options.removeBgCrop ||
+    options.subjectScale !== null ||
+    options.shadow !== "none"
+  );
+}
+
+function toRemovalStep(options: PipelineOptions): PipelineStepSpec {
+  if (options.backgroundRemoval === "local") {
+    return { name: "local-background-removal" };
+  }
+
+  const stepOptions: Record<string, unknown> = {};
+  if (options.backgroundRemoval === "remote-with-fallback") {
+    stepOptions.localFallback = true;
+  }
+
+  const removeBg = toRemoveBgOptions(options);
+  if (Object.keys(removeBg).length > 0) {
+    stepOptions.removeBg = removeBg;
+  }
+
+  if (options.fullResolution && !reframesSubject(options)) {
+    stepOptions.proxySize = REMOVAL_PROXY_SIZE;
+  }
+
+  return Object.keys(stepOptions).length > 0
+    ? { name: "background-removal", options: stepOptions }
+    : { name: "background-removal" };
+}
+
+function toRemoveBgOptions(options: PipelineOptions): RemoveBgOptions {
+  const removeBg: RemoveBgOptions = {};
+
+  if (options.foregroundType !== "auto") {
+    removeBg.type = options.foregroundType;
+  }
+
+  if (options.removeBgCrop) {
+    removeBg.crop = true;
+    if (options.removeBgCropMargin > 0) {
+      removeBg.cropMargin = `${options.removeBgCropMargin}%`;
+    }
+  }
+
+  if (options.subjectScale !== null) {
+    removeBg.scale = options.subjectScale;
+    removeBg.position = "center";
+  }
+
+  if (options.shadow !== "none") {
+    removeBg.shadow = options.shadow;
+  }
+
+  return removeBg;
+}
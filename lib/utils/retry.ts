@@ -0,0 +1,100 @@
+/**
+ * Retry policy for calls to external services
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** Delay before the first retry; doubles with every further retry */
+  baseDelayMs: number;
+  /** Longest single wait. Retry-After values above it are not waited for: the error is thrown instead */
+  maxDelayMs: number;
+  /**
+   * Time budget for the whole call, attempts included. No retry is made
+   * when its wait would end after the budget.
+   */
+  budgetMs?: number;
+  /** Whether an error is transient and worth retrying */
+  isRetryable: (error: unknown) => boolean;
+  /** Wait the service asked for (e.g. from a Retry-After header), used instead of the backoff */
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+  /** Called before waiting for a retry, e.g. to record it */
+  onRetry?: (error: unknown, retry: number, delayMs: number) => void;
+  /** Stops retrying (and waiting) once aborted; the last error is thrown */
+  signal?: AbortSignal;
+}
+
+/**
+ * Exponential backoff delay for a retry, with "equal jitter": half the
+ * delay is fixed and half random, so callers that failed together do not
+ * retry in lockstep.
+ *
+ * @param retry - Zero-based retry number
+ * @param policy - Base and maximum delay
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(
+  retry: number,
+  policy: Pick<RetryPolicy, 'baseDelayMs' | 'maxDelayMs'>
+): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Run an operation, retrying transient failures with exponential backoff.
+ *
+ * A service-requested wait (Retry-After) replaces the backoff for that
+ * retry. Errors are rethrown unchanged once they are not retryable, the
+ * retries are used up, or the wait exceeds `maxDelayMs` or the budget.
+ *
+ * @param operation - Call to make; receives the zero-based attempt number
+ * @param policy - When and how long to wait between attempts
+ * @returns The operation's result
+ * @throws The operation's last error
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy
+): Promise<T> {
+  const startedAt = Date.now();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxRetries || !policy.isRetryable(error) || policy.signal?.aborted) {
+        throw error;
+      }
+
+      const retryAfterMs = policy.getRetryAfterMs?.(error);
+      const delayMs = retryAfterMs ?? computeBackoffDelay(attempt, policy);
+      const exceedsBudget =
+        policy.budgetMs !== undefined && Date.now() - startedAt + delayMs > policy.budgetMs;
+
+      if (delayMs > policy.maxDelayMs || exceedsBudget) {
+        throw error;
+      }
+
+      policy.onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, policy.signal);
+      if (policy.signal?.aborted) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Wait for `ms`, or until the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
@@ -62,3 +62,29 @@ export function validateImageFile(file: File): ValidationResult {
 
   return { valid: true };
 }
+
+/**
+ * Validates a mask edit uploaded from the mask editor: a non-empty PNG
+ * within the upload size limit. Dimensions are checked when it is applied.
+ *
+ * @param file - The uploaded File object to validate
+ * @returns ValidationResult indicating success or failure with error message
+ */
+export function validateMaskDeltaFile(file: File): ValidationResult {
+  if (file.size === 0) {
+    return { valid: false, error: 'Mask edit is empty' };
+  }
+
+  if (file.size > MAX_FILE_SIZE_BYTES) {
+    return {
+      valid: false,
+      error: `Mask edit exceeds maximum allowed size of ${MAX_FILE_SIZE_MB}MB`,
+    };
+  }
+
+  if (file.type !== 'image/png') {
+    return { valid: false, error: 'Mask edit must be a PNG image' };
+  }
+
+  return { valid: true };
+}
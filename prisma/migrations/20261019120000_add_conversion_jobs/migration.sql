@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "ConversionStatus" AS ENUM ('pending', 'processing', 'succeeded', 'failed');
+
+-- CreateEnum
+CREATE TYPE "ConversionJobStatus" AS ENUM ('queued', 'running', 'completed', 'failed');
+
+-- AlterTable
+ALTER TABLE "Conversion" ADD COLUMN     "errorCode" TEXT,
+ADD COLUMN     "errorMessage" TEXT,
+ADD COLUMN     "pipelineSpec" JSONB,
+ADD COLUMN     "status" "ConversionStatus" NOT NULL DEFAULT 'succeeded',
+ALTER COLUMN "processedBlobUrl" DROP NOT NULL,
+ALTER COLUMN "size" DROP NOT NULL;
+
+-- Existing conversions were processed synchronously; new ones start pending
+ALTER TABLE "Conversion" ALTER COLUMN "status" SET DEFAULT 'pending';
+
+-- CreateTable
+CREATE TABLE "ConversionJob" (
+    "id" TEXT NOT NULL,
+    "conversionId" TEXT NOT NULL,
+    "status" "ConversionJobStatus" NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ConversionJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConversionJob_conversionId_key" ON "ConversionJob"("conversionId");
+
+-- CreateIndex
+CREATE INDEX "ConversionJob_status_runAfter_idx" ON "ConversionJob"("status", "runAfter");
+
+-- AddForeignKey
+ALTER TABLE "ConversionJob" ADD CONSTRAINT "ConversionJob_conversionId_fkey" FOREIGN KEY ("conversionId") REFERENCES "Conversion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "ConversionEvent" (
+    "id" SERIAL NOT NULL,
+    "conversionId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConversionEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ConversionEvent_conversionId_id_idx" ON "ConversionEvent"("conversionId", "id");
+
+-- AddForeignKey
+ALTER TABLE "ConversionEvent" ADD CONSTRAINT "ConversionEvent_conversionId_fkey" FOREIGN KEY ("conversionId") REFERENCES "Conversion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
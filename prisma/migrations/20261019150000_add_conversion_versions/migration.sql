@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Conversion" ADD COLUMN     "currentVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ConversionVersion" (
+    "id" TEXT NOT NULL,
+    "conversionId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "processedBlobUrl" TEXT NOT NULL,
+    "maskBlobUrl" TEXT,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "pipelineSpec" JSONB,
+    "report" JSONB,
+    "backgroundRemovalProvider" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConversionVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConversionVersion_conversionId_number_key" ON "ConversionVersion"("conversionId", "number");
+
+-- AddForeignKey
+ALTER TABLE "ConversionVersion" ADD CONSTRAINT "ConversionVersion_conversionId_fkey" FOREIGN KEY ("conversionId") REFERENCES "Conversion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing processed images become each conversion's first version
+INSERT INTO "ConversionVersion" ("id", "conversionId", "number", "processedBlobUrl", "maskBlobUrl", "contentType", "size", "pipelineSpec", "report", "backgroundRemovalProvider", "createdAt")
+SELECT gen_random_uuid()::text, "id", 1, "processedBlobUrl", "maskBlobUrl", "processedContentType", COALESCE("size", 0), "pipelineSpec", "report", "backgroundRemovalProvider", "createdAt"
+FROM "Conversion"
+WHERE "processedBlobUrl" IS NOT NULL;
+
+UPDATE "Conversion" SET "currentVersionId" = "ConversionVersion"."id"
+FROM "ConversionVersion"
+WHERE "ConversionVersion"."conversionId" = "Conversion"."id";
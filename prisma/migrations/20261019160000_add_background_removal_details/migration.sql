@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Conversion" ADD COLUMN     "backgroundRemovalDetails" JSONB;
+
+-- AlterTable
+ALTER TABLE "ConversionVersion" ADD COLUMN     "backgroundRemovalDetails" JSONB,
+ADD COLUMN     "creditsCharged" DOUBLE PRECISION;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "ConversionStatus" ADD VALUE 'cancelled';
+
+-- AlterEnum
+ALTER TYPE "ConversionJobStatus" ADD VALUE 'cancelled';